@@ -0,0 +1,86 @@
+import { ApiKeyPool, maskApiKey } from '../src/services/api-keys.js';
+
+const KEYS = ['AIzaFirstKey0001', 'AIzaSecondKey002', 'AIzaThirdKey0003'];
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('ApiKeyPool', () => {
+  test('sticks to the current key until it is exhausted', () => {
+    const pool = new ApiKeyPool(KEYS);
+
+    expect([pool.acquire(), pool.acquire()]).toEqual([KEYS[0], KEYS[0]]);
+    pool.markExhausted(KEYS[0]);
+    expect(pool.acquire()).toBe(KEYS[1]);
+  });
+
+  test('skips parked keys and wraps around', () => {
+    const pool = new ApiKeyPool(KEYS);
+
+    pool.markExhausted(KEYS[0]);
+    pool.markExhausted(KEYS[1]);
+    expect(pool.acquire()).toBe(KEYS[2]);
+    pool.markExhausted(KEYS[2]);
+    expect(pool.acquire()).toBeNull();
+  });
+
+  test('a key marked exhausted twice by concurrent requests rotates only once', () => {
+    const pool = new ApiKeyPool(KEYS);
+
+    pool.markExhausted(KEYS[0]);
+    pool.markExhausted(KEYS[0]);
+
+    expect(pool.acquire()).toBe(KEYS[1]);
+  });
+
+  test('parks keys until the next Pacific midnight, then uses them again', () => {
+    jest.useFakeTimers({ now: new Date('2024-01-15T20:00:00Z') });
+    const pool = new ApiKeyPool(KEYS.slice(0, 1));
+
+    pool.markExhausted(KEYS[0]);
+    expect(pool.nextAvailableAt()?.toISOString()).toBe('2024-01-16T08:00:00.000Z');
+
+    jest.setSystemTime(new Date('2024-01-16T07:59:59Z'));
+    expect(pool.acquire()).toBeNull();
+
+    jest.setSystemTime(new Date('2024-01-16T08:00:00Z'));
+    expect(pool.acquire()).toBe(KEYS[0]);
+    expect(pool.nextAvailableAt()).toBeNull();
+  });
+
+  test('health masks keys and reports usage', () => {
+    jest.useFakeTimers({ now: new Date('2024-01-15T20:00:00Z') });
+    const pool = new ApiKeyPool(KEYS);
+
+    pool.acquire();
+    pool.markExhausted(KEYS[0]);
+    pool.acquire();
+    pool.acquire();
+
+    expect(pool.getHealth()).toEqual([
+      { key: 'AIza…0001', status: 'exhausted', requests: 1, quotaExceededCount: 1, parkedUntil: '2024-01-16T08:00:00.000Z' },
+      { key: 'AIza…y002', status: 'active', requests: 2, quotaExceededCount: 0 },
+      { key: 'AIza…0003', status: 'standby', requests: 0, quotaExceededCount: 0 },
+    ]);
+    expect(JSON.stringify(pool.getHealth())).not.toContain('FirstKey');
+  });
+
+  test('ignores keys it does not hold', () => {
+    const pool = new ApiKeyPool(KEYS);
+
+    pool.markExhausted('unknown');
+
+    expect(pool.getHealth().every(key => key.quotaExceededCount === 0)).toBe(true);
+  });
+});
+
+describe('maskApiKey', () => {
+  test.each([
+    ['AIzaSyExampleKey1234', 'AIza…1234'],
+    ['short', '****'],
+    ['12345678', '****'],
+  ])('%s → %s', (key, masked) => {
+    expect(maskApiKey(key)).toBe(masked);
+  });
+});
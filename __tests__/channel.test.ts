@@ -0,0 +1,106 @@
+import { ChannelService } from '../src/services/channel.js';
+import { VideoService } from '../src/services/video.js';
+import { createFakeClient } from './helpers/youtube-client.js';
+
+const UPLOADS_PLAYLIST_ID = 'UU1';
+
+/**
+ * Uploads playlist of `count` videos, newest first: v{count-1} is the newest
+ * Titles run backwards through the alphabet and views peak at the middle video
+ */
+function createChannel(count: number) {
+  const uploads = Array.from({ length: count }, (_, index) => {
+    const number = count - 1 - index;
+    return {
+      id: `item-${number}`,
+      snippet: { title: `Video ${String.fromCharCode(90 - (number % 26))}${number}` },
+      contentDetails: { videoId: `v${number}`, videoPublishedAt: new Date(Date.UTC(2024, 0, 1) + number * 86400000).toISOString() }
+    };
+  });
+  const views = (videoId: string) => {
+    const number = Number(videoId.slice(1));
+    return 1000 - Math.abs(number - count / 2) * 2 - (number < count / 2 ? 1 : 0);
+  };
+
+  const { client, calls } = createFakeClient({
+    channels: {
+      list: async () => ({ data: { items: [{ contentDetails: { relatedPlaylists: { uploads: UPLOADS_PLAYLIST_ID } } }] } })
+    },
+    playlistItems: {
+      list: async ({ maxResults, pageToken }: { maxResults: number; pageToken?: string }) => {
+        const start = pageToken ? Number(pageToken) : 0;
+        const end = start + maxResults;
+        return {
+          data: {
+            items: uploads.slice(start, end),
+            nextPageToken: end < uploads.length ? String(end) : undefined,
+            pageInfo: { totalResults: uploads.length }
+          }
+        };
+      }
+    }
+  });
+
+  const videoService = {
+    getVideos: async ({ videoIds }: { videoIds: string[] }) => ({
+      videos: Object.fromEntries(videoIds.map(id => [id, { found: true, video: { id, statistics: { viewCount: String(views(id)) } } }]))
+    })
+  } as unknown as VideoService;
+
+  return { channels: new ChannelService(videoService, client), calls, uploads };
+}
+
+const videoIds = (result: { items: any[] }) => result.items.map(item => item.contentDetails?.videoId ?? item.id);
+
+describe('ChannelService.listVideos', () => {
+  test('newest reads only the pages it needs and can be continued', async () => {
+    const { channels, calls } = createChannel(120);
+
+    const result = await channels.listVideos({ channelId: 'UC1', maxResults: 60 });
+
+    expect(videoIds(result)).toEqual(Array.from({ length: 60 }, (_, index) => `v${119 - index}`));
+    expect(result.nextPageToken).toBe('60');
+    expect(calls).toEqual(['channels.list', 'playlistItems.list', 'playlistItems.list']);
+  });
+
+  test('oldest returns the first uploads of the channel, not of the first page', async () => {
+    const { channels, calls } = createChannel(120);
+
+    const result = await channels.listVideos({ channelId: 'UC1', maxResults: 3, order: 'oldest' });
+
+    expect(videoIds(result)).toEqual(['v0', 'v1', 'v2']);
+    expect(result.nextPageToken).toBeNull();
+    expect(calls.filter(endpoint => endpoint === 'playlistItems.list')).toHaveLength(3);
+  });
+
+  test('title sorts every upload in range', async () => {
+    const { channels } = createChannel(120);
+
+    const result = await channels.listVideos({ channelId: 'UC1', maxResults: 2, order: 'title' });
+
+    expect(result.items.map(item => item.snippet.title)).toEqual(['Video A103', 'Video A25']);
+  });
+
+  test('viewCount hydrates every upload in range and keeps the most viewed', async () => {
+    const { channels } = createChannel(120);
+
+    const result = await channels.listVideos({ channelId: 'UC1', maxResults: 3, order: 'viewCount' });
+
+    expect(videoIds(result)).toEqual(['v60', 'v61', 'v59']);
+  });
+
+  test('sorted orders stay within the published range', async () => {
+    const { channels } = createChannel(120);
+
+    const result = await channels.listVideos({ channelId: 'UC1', maxResults: 2, order: 'oldest', publishedAfter: '2024-03-01T00:00:00Z' });
+
+    expect(videoIds(result)).toEqual(['v60', 'v61']);
+  });
+
+  test('sorted orders reject a pageToken', async () => {
+    const { channels } = createChannel(10);
+
+    await expect(channels.listVideos({ channelId: 'UC1', order: 'oldest', pageToken: '50' }))
+      .rejects.toMatchObject({ code: 'INVALID_ARGUMENT', details: { field: 'pageToken' } });
+  });
+});
@@ -0,0 +1,92 @@
+import { CommentService } from '../src/services/comment.js';
+import { SharedGoogleOAuthClient } from '../src/shared-oauth/index.js';
+import { createFakeClient } from './helpers/youtube-client.js';
+
+function apiError(status: number, reason: string): Error {
+  return Object.assign(new Error(reason), { response: { status, data: { error: { errors: [{ reason }] } } } });
+}
+
+/**
+ * Comment service over a fake client; deletes of IDs in `failing` throw the given error
+ */
+function createService(existing: string[], failing: Record<string, Error> = {}, authenticated = true) {
+  const deleted: string[] = [];
+  const { client, calls } = createFakeClient({
+    comments: {
+      delete: async ({ id }: { id: string }) => {
+        if (failing[id]) throw failing[id];
+        deleted.push(id);
+        return { data: '' };
+      },
+      list: async ({ id }: { id: string[] }) => ({
+        data: { items: id.filter(commentId => existing.includes(commentId)).map(commentId => ({ id: commentId, snippet: { textOriginal: `comment ${commentId}` } })) }
+      })
+    }
+  });
+  const oauthClient = {
+    hasValidTokens: async () => authenticated,
+    getAuthenticatedClient: async () => ({})
+  } as unknown as SharedGoogleOAuthClient;
+
+  return { comments: new CommentService(client, oauthClient), calls, deleted };
+}
+
+describe('CommentService.deleteComments', () => {
+  test('reports each comment and keeps going after a failed delete', async () => {
+    const { comments, deleted } = createService(['a', 'b', 'c'], { b: apiError(404, 'commentNotFound') });
+
+    const report = await comments.deleteComments({ commentIds: ['a', 'b', 'c'] });
+
+    expect(deleted).toEqual(['a', 'c']);
+    expect(report).toEqual({
+      success: false,
+      summary: { deleted: 2, failed: 1 },
+      items: [
+        { commentId: 'a', status: 'deleted' },
+        { commentId: 'b', status: 'failed', error: expect.objectContaining({ code: 'NOT_FOUND', reason: 'commentNotFound' }) },
+        { commentId: 'c', status: 'deleted' }
+      ]
+    });
+  });
+
+  test.each([
+    ['quota', apiError(403, 'quotaExceeded'), 'QUOTA_EXCEEDED'],
+    ['authorization', apiError(403, 'insufficientPermissions'), 'AUTH_REQUIRED'],
+  ])('stops deleting after a %s error', async (_name, error, code) => {
+    const { comments, deleted } = createService(['a', 'b', 'c'], { a: error });
+
+    const report = await comments.deleteComments({ commentIds: ['a', 'b', 'c'] }) as any;
+
+    expect(deleted).toEqual([]);
+    expect(report.summary).toEqual({ deleted: 0, failed: 3 });
+    expect(report.items[0].error).toMatchObject({ code });
+    expect(report.items.slice(1).map((item: any) => item.error)).toEqual([
+      expect.objectContaining({ code, notAttempted: true }),
+      expect.objectContaining({ code, notAttempted: true })
+    ]);
+  });
+
+  test('dryRun looks the comments up without deleting them', async () => {
+    const { comments, calls, deleted } = createService(['a']);
+
+    const result = await comments.deleteComments({ commentIds: ['a', 'missing'], dryRun: true });
+
+    expect(result).toMatchObject({
+      dryRun: true,
+      endpoint: 'comments.delete',
+      quotaCost: 100,
+      authenticated: true,
+      targets: [{ id: 'a' }],
+      notFound: ['missing']
+    });
+    expect(deleted).toEqual([]);
+    expect(calls).toEqual(['comments.list']);
+  });
+
+  test('fails before deleting anything without OAuth', async () => {
+    const { comments, calls } = createService(['a'], {}, false);
+
+    await expect(comments.deleteComments({ commentIds: ['a'] })).rejects.toMatchObject({ code: 'AUTH_REQUIRED' });
+    expect(calls).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  NotFoundError,
+  ServiceError,
+  toCaptionError,
+  toServiceError
+} from '../src/errors.js';
+import { QuotaBudgetError } from '../src/services/quota.js';
+
+/**
+ * Error shaped like a failed googleapis (gaxios) call
+ */
+function apiError(status: number, reason?: string): Error {
+  return Object.assign(new Error(reason || `Request failed with status code ${status}`), {
+    response: { status, data: { error: { errors: reason ? [{ reason }] : [] } } }
+  });
+}
+
+function networkError(code: string): Error {
+  return Object.assign(new Error(`connect ${code}`), { code });
+}
+
+describe('toServiceError', () => {
+  test.each([
+    ['quotaExceeded', apiError(403, 'quotaExceeded'), 'QUOTA_EXCEEDED', 429, false],
+    ['dailyLimitExceeded', apiError(403, 'dailyLimitExceeded'), 'QUOTA_EXCEEDED', 429, false],
+    ['a 404', apiError(404), 'NOT_FOUND', 404, false],
+    ['videoNotFound', apiError(400, 'videoNotFound'), 'NOT_FOUND', 404, false],
+    ['a 401', apiError(401), 'AUTH_REQUIRED', 401, false],
+    ['insufficientPermissions', apiError(403, 'insufficientPermissions'), 'AUTH_REQUIRED', 401, false],
+    ['commentsDisabled', apiError(403, 'commentsDisabled'), 'UPSTREAM_ERROR', 502, false],
+    ['rateLimitExceeded', apiError(403, 'rateLimitExceeded'), 'UPSTREAM_ERROR', 502, true],
+    ['a 400', apiError(400, 'invalidParameter'), 'INVALID_ARGUMENT', 400, false],
+    ['a 503', apiError(503), 'UPSTREAM_ERROR', 502, true],
+    ['a 429', apiError(429), 'UPSTREAM_ERROR', 502, true],
+    ['a timeout', networkError('ETIMEDOUT'), 'UPSTREAM_ERROR', 502, true],
+    ['a reset connection', networkError('ECONNRESET'), 'UPSTREAM_ERROR', 502, true],
+    ['an unknown error', new Error('boom'), 'UPSTREAM_ERROR', 500, false],
+    ['a thrown string', 'boom', 'UPSTREAM_ERROR', 500, false],
+  ])('maps %s', (_name, error, code, httpStatus, retryable) => {
+    expect(toServiceError(error)).toMatchObject({ code, httpStatus, retryable });
+  });
+
+  test('keeps the upstream status and reason as details', () => {
+    expect(toServiceError(apiError(403, 'commentsDisabled')).toJSON()).toMatchObject({ upstreamStatus: 403, reason: 'commentsDisabled' });
+  });
+
+  test('prefixes the context to the message', () => {
+    expect(toServiceError(new Error('boom'), 'Failed to get video').message).toBe('Failed to get video: boom');
+  });
+
+  test('maps a local quota budget refusal with its reset time', () => {
+    const error = toServiceError(new QuotaBudgetError('Daily budget used up', 'search.list', '2024-01-02T08:00:00.000Z'));
+
+    expect(error).toMatchObject({ code: 'QUOTA_EXCEEDED', details: { endpoint: 'search.list', resetsAt: '2024-01-02T08:00:00.000Z' } });
+  });
+
+  test('passes service errors through unchanged', () => {
+    const error = new NotFoundError('Video not found', { videoId: 'abc' });
+
+    expect(toServiceError(error, 'Failed to get video')).toBe(error);
+  });
+});
+
+describe('toCaptionError', () => {
+  test.each([
+    ['Player API failed: 429 Too Many Requests', 'UPSTREAM_ERROR', true],
+    ['Caption fetch failed: 500', 'UPSTREAM_ERROR', true],
+    ['Caption fetch failed: 404', 'CAPTIONS_UNAVAILABLE', false],
+    ['Player API failed: 403 Forbidden', 'CAPTIONS_UNAVAILABLE', false],
+    ['Transcript response is empty or invalid', 'CAPTIONS_UNAVAILABLE', false],
+    ['Something unexpected', 'UPSTREAM_ERROR', false],
+  ])('maps "%s"', (message, code, retryable) => {
+    expect(toCaptionError(new Error(message), 'abc', 'en')).toMatchObject({ code, retryable, details: expect.objectContaining({ videoId: 'abc', language: 'en' }) });
+  });
+
+  test('treats timeouts and network failures as retryable', () => {
+    expect(toCaptionError(networkError('ETIMEDOUT'), 'abc', 'en')).toMatchObject({ code: 'UPSTREAM_ERROR', retryable: true });
+    expect(toCaptionError(new TypeError('fetch failed'), 'abc', 'en')).toMatchObject({ code: 'UPSTREAM_ERROR', retryable: true });
+  });
+
+  test('passes service errors through unchanged', () => {
+    const error = new ServiceError('INVALID_ARGUMENT', 'bad language', 400);
+
+    expect(toCaptionError(error, 'abc', 'en')).toBe(error);
+  });
+});
@@ -0,0 +1,50 @@
+import { PlaylistService } from '../../src/services/playlist.js';
+import { NotFoundError } from '../../src/errors.js';
+
+interface FakePlaylistItem {
+  id: string;
+  snippet: { title: string; publishedAt: string; resourceId: { videoId: string } };
+  contentDetails: { videoId: string };
+}
+
+/**
+ * In-memory playlist standing in for the YouTube-backed PlaylistService
+ * Inserts of videos listed in `failing` throw the given error once
+ */
+export function createPlaylist(videoIds: string[] = [], failing: Record<string, Error> = {}) {
+  const items: FakePlaylistItem[] = [];
+  let nextId = 0;
+  const toItem = (videoId: string): FakePlaylistItem => ({
+    id: `item-${videoId}${items.some(item => item.contentDetails.videoId === videoId) ? `-${nextId++}` : ''}`,
+    snippet: { title: `Video ${videoId}`, publishedAt: '2024-01-01T00:00:00Z', resourceId: { videoId } },
+    contentDetails: { videoId }
+  });
+  for (const videoId of videoIds) items.push(toItem(videoId));
+
+  const inserted: string[] = [];
+  const removed: string[] = [];
+
+  const service = {
+    getPlaylistItems: async () => ({ items: [...items], nextPageToken: null }),
+    getAllPlaylistItems: async () => [...items],
+    addVideoToPlaylist: async (_playlistId: string, videoId: string) => {
+      const error = failing[videoId];
+      if (error) {
+        delete failing[videoId];
+        throw error;
+      }
+      const item = toItem(videoId);
+      items.push(item);
+      inserted.push(videoId);
+      return item.id;
+    },
+    removeVideoFromPlaylist: async (playlistItemId: string) => {
+      const index = items.findIndex(item => item.id === playlistItemId);
+      if (index < 0) throw new NotFoundError(`Playlist item not found: ${playlistItemId}`);
+      items.splice(index, 1);
+      removed.push(playlistItemId);
+    }
+  };
+
+  return { service: service as unknown as PlaylistService, items, inserted, removed };
+}
@@ -0,0 +1,21 @@
+import * as fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Fresh temporary directory for each test in the calling file, removed afterwards
+ * Read `path` inside tests and hooks; it changes per test
+ */
+export function useTempDirectory(prefix: string): { path: string } {
+  const directory = { path: '' };
+
+  beforeEach(async () => {
+    directory.path = await fs.mkdtemp(path.join(os.tmpdir(), prefix));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory.path, { recursive: true, force: true });
+  });
+
+  return directory;
+}
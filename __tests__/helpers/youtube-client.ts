@@ -0,0 +1,20 @@
+import { youtube_v3 } from 'googleapis';
+import { YouTubeClientProvider } from '../../src/services/youtube-client.js';
+import { QuotaEndpoint } from '../../src/services/quota.js';
+
+/**
+ * Client provider that runs requests against a fake googleapis client
+ * (only the methods a test needs) and records the endpoints called
+ * OAuth clients it creates are the same fake
+ */
+export function createFakeClient(youtube: Record<string, any>) {
+  const calls: QuotaEndpoint[] = [];
+  const client = {
+    createClient: () => youtube,
+    call: async (endpoint: QuotaEndpoint, request: (youtube: youtube_v3.Youtube, options: { timeout: number }) => Promise<unknown>, oauthClient?: youtube_v3.Youtube) => {
+      calls.push(endpoint);
+      return request(oauthClient || (youtube as youtube_v3.Youtube), { timeout: 1000 });
+    }
+  };
+  return { client: client as unknown as YouTubeClientProvider, calls };
+}
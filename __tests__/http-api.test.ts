@@ -0,0 +1,83 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HttpApiServer } from '../src/http-api.js';
+import { ToolRegistry, ToolServices } from '../src/tools/index.js';
+
+const PLAYLIST_ITEM = {
+  kind: 'youtube#playlistItem',
+  etag: 'etag-1',
+  id: 'item-1',
+  snippet: { title: 'First video', position: 0, resourceId: { kind: 'youtube#video', videoId: 'vid-1' } },
+  contentDetails: { videoId: 'vid-1' }
+};
+
+function createRegistry(): ToolRegistry {
+  const services = { idResolver: { resolveArgs: async () => undefined } } as unknown as ToolServices;
+  return new ToolRegistry(services, [{
+    name: 'playlists_getPlaylistItems',
+    description: 'List playlist items',
+    inputSchema: { type: 'object', properties: { playlistId: { type: 'string' } }, required: ['playlistId'] },
+    route: { method: 'GET', path: '/api/playlist/:playlistId/items' },
+    handler: async () => ({ items: [PLAYLIST_ITEM], nextPageToken: null })
+  }]);
+}
+
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const api = new HttpApiServer(createRegistry());
+  server = http.createServer((req, res) => api.handleRequest(req, res));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+async function getJson(path: string): Promise<any> {
+  const response = await fetch(`${baseUrl}${path}`);
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+describe('REST tool routes', () => {
+  test('return raw API objects by default', async () => {
+    const body = await getJson('/api/playlist/PL1/items');
+
+    expect(body).toEqual({ items: [PLAYLIST_ITEM], nextPageToken: null });
+  });
+
+  test('return the compact view on request', async () => {
+    const body = await getJson('/api/playlist/PL1/items?view=compact');
+
+    expect(body.items).toEqual([{ id: 'item-1', videoId: 'vid-1', title: 'First video', position: 0 }]);
+  });
+});
+
+describe('REST path parameters', () => {
+  test('are percent-decoded', () => {
+    const registry = createRegistry();
+
+    expect(registry.matchRoute('GET', '/api/playlist/PL%201/items')?.params).toEqual({ playlistId: 'PL 1' });
+  });
+
+  test('malformed percent-encoding is a 400, not a server error', async () => {
+    const response = await fetch(`${baseUrl}/api/playlist/%E0%A4%A/items`);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_ARGUMENT', field: 'playlistId' });
+  });
+});
+
+describe('ToolRegistry.call', () => {
+  test('applies the caller default view when none is requested', async () => {
+    const registry = createRegistry();
+
+    await expect(registry.call('playlists_getPlaylistItems', { playlistId: 'PL1' }, 'compact'))
+      .resolves.toMatchObject({ items: [{ id: 'item-1', videoId: 'vid-1' }] });
+    await expect(registry.call('playlists_getPlaylistItems', { playlistId: 'PL1', view: 'full' }, 'compact'))
+      .resolves.toEqual({ items: [PLAYLIST_ITEM], nextPageToken: null });
+  });
+});
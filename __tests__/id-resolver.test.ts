@@ -0,0 +1,72 @@
+import { parseChannelRef, parsePlaylistId, parseVideoId } from '../src/services/id-resolver.js';
+
+const VIDEO_ID = 'dQw4w9WgXcQ';
+const PLAYLIST_ID = 'PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf';
+const CHANNEL_ID = 'UC38IQsAvIsxxjztdMZQtwHA';
+
+describe('parseVideoId', () => {
+  test.each([
+    [VIDEO_ID],
+    [`https://www.youtube.com/watch?v=${VIDEO_ID}`],
+    [`https://www.youtube.com/watch?v=${VIDEO_ID}&list=${PLAYLIST_ID}&t=42s`],
+    [`https://m.youtube.com/watch?v=${VIDEO_ID}`],
+    [`youtube.com/watch?v=${VIDEO_ID}`],
+    [`https://youtu.be/${VIDEO_ID}?t=10`],
+    [`youtu.be/${VIDEO_ID}`],
+    [`https://www.youtube.com/shorts/${VIDEO_ID}`],
+    [`https://www.youtube.com/embed/${VIDEO_ID}`],
+    [`https://www.youtube-nocookie.com/embed/${VIDEO_ID}`],
+    [`https://www.youtube.com/live/${VIDEO_ID}?feature=share`],
+    [`  ${VIDEO_ID}  `],
+  ])('%s', input => {
+    expect(parseVideoId(input)).toBe(VIDEO_ID);
+  });
+
+  test('returns non-URL input unchanged for the API to reject', () => {
+    expect(parseVideoId('not-an-id')).toBe('not-an-id');
+  });
+
+  test('rejects YouTube URLs without a video ID', () => {
+    expect(() => parseVideoId('https://www.youtube.com/feed/trending')).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT', details: { field: 'videoId' } }));
+    expect(() => parseVideoId('https://youtu.be/short')).toThrow(/Could not find a video ID/);
+  });
+
+  test('leaves URLs on other hosts alone', () => {
+    expect(parseVideoId(`https://example.com/watch?v=${VIDEO_ID}`)).toBe(`https://example.com/watch?v=${VIDEO_ID}`);
+  });
+});
+
+describe('parsePlaylistId', () => {
+  test.each([
+    [PLAYLIST_ID],
+    [`https://www.youtube.com/playlist?list=${PLAYLIST_ID}`],
+    [`https://www.youtube.com/watch?v=${VIDEO_ID}&list=${PLAYLIST_ID}`],
+    [`youtube.com/playlist?list=${PLAYLIST_ID}`],
+  ])('%s', input => {
+    expect(parsePlaylistId(input)).toBe(PLAYLIST_ID);
+  });
+
+  test('rejects YouTube URLs without list=', () => {
+    expect(() => parsePlaylistId(`https://www.youtube.com/watch?v=${VIDEO_ID}`)).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT', details: { field: 'playlistId' } }));
+  });
+});
+
+describe('parseChannelRef', () => {
+  test.each([
+    [CHANNEL_ID, { kind: 'id', value: CHANNEL_ID }],
+    [`https://www.youtube.com/channel/${CHANNEL_ID}`, { kind: 'id', value: CHANNEL_ID }],
+    [`https://www.youtube.com/channel/${CHANNEL_ID}/videos`, { kind: 'id', value: CHANNEL_ID }],
+    ['@GoogleDevelopers', { kind: 'handle', value: '@GoogleDevelopers' }],
+    ['https://www.youtube.com/@GoogleDevelopers', { kind: 'handle', value: '@GoogleDevelopers' }],
+    ['youtube.com/@GoogleDevelopers/videos', { kind: 'handle', value: '@GoogleDevelopers' }],
+    ['https://www.youtube.com/user/GoogleDevelopers', { kind: 'username', value: 'GoogleDevelopers' }],
+    ['https://www.youtube.com/c/GoogleDevelopers', { kind: 'custom', value: 'GoogleDevelopers' }],
+  ])('%s', (input, expected) => {
+    expect(parseChannelRef(input)).toEqual(expected);
+  });
+
+  test('rejects YouTube URLs that do not name a channel', () => {
+    expect(() => parseChannelRef(`https://www.youtube.com/watch?v=${VIDEO_ID}`)).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT', details: { field: 'channelId' } }));
+    expect(() => parseChannelRef('https://www.youtube.com/channel/not-a-channel-id')).toThrow(/Could not find a channel/);
+  });
+});
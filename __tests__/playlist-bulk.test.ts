@@ -0,0 +1,124 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { PlaylistBulkService } from '../src/services/playlist-bulk.js';
+import { PlaylistService } from '../src/services/playlist.js';
+import { IdempotencyStore } from '../src/services/idempotency.js';
+import { VideoQueryResolver } from '../src/services/video-query.js';
+import { QuotaExceededError, UpstreamError } from '../src/errors.js';
+import { createPlaylist } from './helpers/playlist.js';
+import { useTempDirectory } from './helpers/temp-directory.js';
+
+const PLAYLIST_ID = 'PL1';
+
+function createBulkService(playlist: PlaylistService, store: IdempotencyStore, queries?: VideoQueryResolver): PlaylistBulkService {
+  return new PlaylistBulkService(playlist, queries, store, { writeIntervalMs: 0, maxItems: 50 });
+}
+
+/**
+ * Query resolver returning whatever `results.videoIds` holds at the time
+ */
+function createQueries(results: { videoIds: string[] }) {
+  const resolve = jest.fn(async () => [...results.videoIds]);
+  return { queries: { resolve } as unknown as VideoQueryResolver, resolve };
+}
+
+const directory = useTempDirectory('playlist-bulk-test-');
+
+describe('PlaylistBulkService', () => {
+  test('reports each item and keeps going after a failed write', async () => {
+    const playlist = createPlaylist(['a'], { c: new UpstreamError('backend error', true) });
+    const bulk = createBulkService(playlist.service, new IdempotencyStore({ ttlHours: 1 }));
+
+    const report = await bulk.addVideos({ playlistId: PLAYLIST_ID, videoIds: ['a', 'b', 'c', 'd'] });
+
+    expect(report.success).toBe(false);
+    expect(report.summary).toEqual({ added: 2, removed: 0, moved: 0, skipped: 1, failed: 1 });
+    expect(report.items.map(item => [item.videoId, item.status])).toEqual([['a', 'skipped'], ['b', 'added'], ['c', 'failed'], ['d', 'added']]);
+  });
+
+  test('stops writing once the quota runs out', async () => {
+    const playlist = createPlaylist([], { b: new QuotaExceededError('quota exceeded') });
+    const bulk = createBulkService(playlist.service, new IdempotencyStore({ ttlHours: 1 }));
+
+    const report = await bulk.addVideos({ playlistId: PLAYLIST_ID, videoIds: ['a', 'b', 'c'] });
+
+    expect(playlist.inserted).toEqual(['a']);
+    expect(report.items[2]).toMatchObject({ videoId: 'c', status: 'failed', error: { code: 'QUOTA_EXCEEDED', notAttempted: true } });
+  });
+
+  test('a retry with the same key replays completed writes and retries only the failed ones', async () => {
+    const playlist = createPlaylist([], { b: new UpstreamError('backend error', true) });
+    const bulk = createBulkService(playlist.service, new IdempotencyStore({ ttlHours: 1 }));
+    const params = { playlistId: PLAYLIST_ID, videoIds: ['a', 'b'], idempotencyKey: 'key-1' };
+
+    const first = await bulk.addVideos(params);
+    const retry = await bulk.addVideos(params);
+
+    expect(first.summary.failed).toBe(1);
+    expect(retry.success).toBe(true);
+    expect(retry.items).toEqual([
+      expect.objectContaining({ videoId: 'a', status: 'added', replayed: true }),
+      expect.objectContaining({ videoId: 'b', status: 'added' })
+    ]);
+    expect(playlist.inserted).toEqual(['a', 'b']);
+  });
+
+  test('rejects reusing a key for different arguments', async () => {
+    const bulk = createBulkService(createPlaylist().service, new IdempotencyStore({ ttlHours: 1 }));
+
+    await bulk.addVideos({ playlistId: PLAYLIST_ID, videoIds: ['a'], idempotencyKey: 'key-1' });
+
+    await expect(bulk.addVideos({ playlistId: PLAYLIST_ID, videoIds: ['b'], idempotencyKey: 'key-1' }))
+      .rejects.toMatchObject({ code: 'INVALID_ARGUMENT', details: { field: 'idempotencyKey' } });
+  });
+
+  test('an apply retry reuses the desired list resolved by the first attempt', async () => {
+    const playlist = createPlaylist([], { b: new UpstreamError('backend error', true) });
+    const results = { videoIds: ['a', 'b'] };
+    const { queries, resolve } = createQueries(results);
+    const bulk = createBulkService(playlist.service, new IdempotencyStore({ ttlHours: 1 }), queries);
+    const params = { playlistId: PLAYLIST_ID, query: { source: 'playlist' as const, playlistId: 'PL2' }, reorder: false, idempotencyKey: 'key-1' };
+
+    const first = await bulk.applyDesiredState(params);
+    results.videoIds = ['c'];
+    const retry = await bulk.applyDesiredState(params);
+
+    expect(first).toMatchObject({ success: false });
+    expect(retry).toMatchObject({ success: true, summary: { added: 1, removed: 0 } });
+    expect(playlist.inserted).toEqual(['a', 'b']);
+    expect(resolve).toHaveBeenCalledTimes(1);
+  });
+
+  test('an apply key is bound to the request arguments, not the resolved videos', async () => {
+    const { queries } = createQueries({ videoIds: ['a'] });
+    const bulk = createBulkService(createPlaylist().service, new IdempotencyStore({ ttlHours: 1 }), queries);
+
+    await bulk.applyDesiredState({ playlistId: PLAYLIST_ID, query: { source: 'playlist', playlistId: 'PL2' }, reorder: false, idempotencyKey: 'key-1' });
+
+    await expect(bulk.applyDesiredState({ playlistId: PLAYLIST_ID, query: { source: 'playlist', playlistId: 'PL3' }, reorder: false, idempotencyKey: 'key-1' }))
+      .rejects.toMatchObject({ code: 'INVALID_ARGUMENT', details: { field: 'idempotencyKey' } });
+  });
+
+  test('remembers completed writes across restarts', async () => {
+    const statePath = path.join(directory.path, 'idempotency.json');
+    const playlist = createPlaylist();
+    const params = { playlistId: PLAYLIST_ID, videoIds: ['a'], idempotencyKey: 'key-1' };
+
+    await createBulkService(playlist.service, new IdempotencyStore({ ttlHours: 1, statePath })).addVideos(params);
+    const replay = await createBulkService(playlist.service, new IdempotencyStore({ ttlHours: 1, statePath })).addVideos(params);
+
+    expect(replay.items).toEqual([expect.objectContaining({ videoId: 'a', status: 'added', replayed: true })]);
+    expect(playlist.inserted).toEqual(['a']);
+    expect(await fs.readdir(directory.path)).toEqual(['idempotency.json']);
+  });
+
+  test('fails the request when completed writes cannot be recorded', async () => {
+    const statePath = path.join(directory.path, 'missing', 'idempotency.json');
+    const playlist = createPlaylist();
+    const bulk = createBulkService(playlist.service, new IdempotencyStore({ ttlHours: 1, statePath }));
+
+    await expect(bulk.addVideos({ playlistId: PLAYLIST_ID, videoIds: ['a', 'b'], idempotencyKey: 'key-1' }))
+      .rejects.toThrow(/Failed to save idempotency state/);
+    expect(playlist.inserted).toEqual(['a']);
+  });
+});
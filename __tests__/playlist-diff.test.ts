@@ -0,0 +1,101 @@
+import { planMoves, planPlaylistSync } from '../src/services/playlist-diff.js';
+
+// playlistItems.list resource for a video
+const item = (videoId: string, id = `item-${videoId}`) => ({
+  id,
+  contentDetails: { videoId },
+  snippet: { resourceId: { kind: 'youtube#video', videoId } }
+});
+
+/**
+ * Apply moves to a list of video IDs the way playlistItems.update would
+ */
+function applyMoves(videoIds: string[], moves: Array<{ videoId: string; to: number }>): string[] {
+  const order = [...videoIds];
+  for (const { videoId, to } of moves) {
+    order.splice(order.indexOf(videoId), 1);
+    order.splice(to, 0, videoId);
+  }
+  return order;
+}
+
+describe('planMoves', () => {
+  test('returns no moves when entries are already in order', () => {
+    const entries = ['a', 'b', 'c'].map(videoId => ({ videoId }));
+    expect(planMoves(entries, ['a', 'b', 'c'])).toEqual([]);
+  });
+
+  test('moves only the items off the longest in-order run', () => {
+    const entries = ['b', 'c', 'd', 'a'].map(videoId => ({ videoId, playlistItemId: `item-${videoId}` }));
+    const moves = planMoves(entries, ['a', 'b', 'c', 'd']);
+
+    expect(moves).toEqual([{ videoId: 'a', playlistItemId: 'item-a', from: 3, to: 0 }]);
+  });
+
+  test('produces moves that reach the desired order when applied in sequence', () => {
+    const current = ['e', 'c', 'a', 'd', 'b'];
+    const desired = ['a', 'b', 'c', 'd', 'e'];
+    const moves = planMoves(current.map(videoId => ({ videoId })), desired);
+
+    expect(applyMoves(current, moves)).toEqual(desired);
+    // The longest in-order run (e.g. c, d) has two items, so the other three move
+    expect(moves.length).toBe(3);
+  });
+
+  test('keeps unwanted entries in place and counts them in positions', () => {
+    const current = ['x', 'b', 'a'];
+    const moves = planMoves(current.map(videoId => ({ videoId })), ['a', 'b']);
+
+    expect(moves).toEqual([{ videoId: 'b', from: 1, to: 2 }]);
+    expect(applyMoves(current, moves)).toEqual(['x', 'a', 'b']);
+  });
+});
+
+describe('planPlaylistSync', () => {
+  test('reports a playlist that already matches as in sync', () => {
+    const plan = planPlaylistSync('PL1', [item('a'), item('b')], ['a', 'b'], { removeExtra: true, reorder: true });
+
+    expect(plan).toMatchObject({ inserts: [], deletes: [], moves: [], quotaCost: 0, inSync: true });
+  });
+
+  test('inserts missing videos and deletes unwanted ones', () => {
+    const plan = planPlaylistSync('PL1', [item('a'), item('x')], ['a', 'b'], { removeExtra: true, reorder: true });
+
+    expect(plan.inserts).toEqual([{ videoId: 'b' }]);
+    expect(plan.deletes).toEqual([{ videoId: 'x', playlistItemId: 'item-x', reason: 'notWanted' }]);
+    expect(plan.moves).toEqual([]);
+    expect(plan.quotaCost).toBe(100);
+    expect(plan.inSync).toBe(false);
+  });
+
+  test('keeps unwanted videos when removeExtra is false', () => {
+    const plan = planPlaylistSync('PL1', [item('x'), item('a')], ['a'], { removeExtra: false, reorder: true });
+
+    expect(plan.deletes).toEqual([]);
+    expect(plan.inSync).toBe(true);
+  });
+
+  test('deletes repeated occurrences of a wanted video, keeping the first', () => {
+    const plan = planPlaylistSync('PL1', [item('a', 'first'), item('b'), item('a', 'second')], ['a', 'b'], { removeExtra: false, reorder: true });
+
+    expect(plan.deletes).toEqual([{ videoId: 'a', playlistItemId: 'second', reason: 'duplicate' }]);
+    expect(plan.inserts).toEqual([]);
+    expect(plan.moves).toEqual([]);
+  });
+
+  test('plans moves for videos out of order and for appended inserts', () => {
+    const plan = planPlaylistSync('PL1', [item('b'), item('c')], ['a', 'b', 'c'], { removeExtra: true, reorder: true });
+
+    expect(plan.inserts).toEqual([{ videoId: 'a' }]);
+    // YouTube appends the insert, so it has to move to the front afterwards
+    expect(plan.moves).toEqual([{ videoId: 'a', from: 2, to: 0 }]);
+    expect(plan.quotaCost).toBe(50 + 51);
+  });
+
+  test('skips moves when reorder is false', () => {
+    const plan = planPlaylistSync('PL1', [item('b'), item('a')], ['a', 'b'], { removeExtra: true, reorder: false });
+
+    expect(plan.moves).toEqual([]);
+    expect(plan.inSync).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import { LeaseConfig, PlaylistLeaseService } from '../src/services/playlist-leases.js';
+import { createPlaylist } from './helpers/playlist.js';
+import { useTempDirectory } from './helpers/temp-directory.js';
+
+const PLAYLIST_ID = 'PL1';
+
+const directory = useTempDirectory('playlist-leases-test-');
+let config: LeaseConfig;
+
+beforeEach(() => {
+  config = { leaseSeconds: 60, maxLeaseSeconds: 600, ackedTtlSeconds: 600, statePath: path.join(directory.path, 'leases.json') };
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('PlaylistLeaseService', () => {
+  test('concurrent claims get different items', async () => {
+    const leases = new PlaylistLeaseService(createPlaylist(['a', 'b', 'c']).service, config);
+
+    const claims = await Promise.all([1, 2, 3, 4].map(worker => leases.claim({ playlistId: PLAYLIST_ID, worker: `w${worker}` })));
+
+    expect(claims.map(claim => claim.lease?.videoId)).toEqual(['a', 'b', 'c', undefined]);
+    expect(claims[3]).toEqual({ lease: null, message: 'No unclaimed videos in playlist' });
+  });
+
+  test('ack removes the item and ends the lease', async () => {
+    const playlist = createPlaylist(['a', 'b']);
+    const leases = new PlaylistLeaseService(playlist.service, config);
+
+    const { lease } = await leases.claim({ playlistId: PLAYLIST_ID });
+    await leases.ack({ leaseId: lease.leaseId });
+
+    expect(playlist.removed).toEqual(['item-a']);
+    await expect(leases.ack({ leaseId: lease.leaseId })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  test('ack succeeds when the item is already gone', async () => {
+    const playlist = createPlaylist(['a']);
+    const leases = new PlaylistLeaseService(playlist.service, config);
+
+    const { lease } = await leases.claim({ playlistId: PLAYLIST_ID });
+    playlist.items.length = 0;
+
+    await expect(leases.ack({ leaseId: lease.leaseId })).resolves.toMatchObject({ acked: true });
+  });
+
+  test('nack returns the item to the pool', async () => {
+    const leases = new PlaylistLeaseService(createPlaylist(['a']).service, config);
+
+    const first = await leases.claim({ playlistId: PLAYLIST_ID });
+    await leases.nack({ leaseId: first.lease.leaseId });
+    const second = await leases.claim({ playlistId: PLAYLIST_ID });
+
+    expect(second.lease?.videoId).toBe('a');
+    expect(second.lease?.leaseId).not.toBe(first.lease.leaseId);
+  });
+
+  test('an expired lease returns its item to the pool', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    const leases = new PlaylistLeaseService(createPlaylist(['a']).service, config);
+
+    const first = await leases.claim({ playlistId: PLAYLIST_ID, leaseSeconds: 30 });
+    jest.setSystemTime(new Date('2024-01-01T00:00:31Z'));
+    const second = await leases.claim({ playlistId: PLAYLIST_ID });
+
+    expect(second.lease?.videoId).toBe('a');
+    await expect(leases.nack({ leaseId: first.lease.leaseId })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  test('leases survive a restart', async () => {
+    const playlist = createPlaylist(['a', 'b']);
+
+    const { lease } = await new PlaylistLeaseService(playlist.service, config).claim({ playlistId: PLAYLIST_ID });
+    const restarted = new PlaylistLeaseService(playlist.service, config);
+
+    expect((await restarted.claim({ playlistId: PLAYLIST_ID })).lease?.videoId).toBe('b');
+    await expect(restarted.nack({ leaseId: lease.leaseId })).resolves.toMatchObject({ released: true });
+    expect(await fs.readdir(directory.path)).toEqual(['leases.json']);
+  });
+
+  test('a claim that cannot be saved fails and holds nothing', async () => {
+    const leases = new PlaylistLeaseService(createPlaylist(['a']).service, { ...config, statePath: path.join(directory.path, 'missing', 'leases.json') });
+
+    await expect(leases.claim({ playlistId: PLAYLIST_ID })).rejects.toThrow(/Failed to save lease state/);
+
+    // Saving works again once the directory exists; the failed claim left no lease behind
+    await fs.mkdir(path.join(directory.path, 'missing'));
+    expect((await leases.claim({ playlistId: PLAYLIST_ID })).lease?.videoId).toBe('a');
+  });
+
+  test('a nack that cannot be saved keeps the lease', async () => {
+    const statePath = path.join(directory.path, 'state', 'leases.json');
+    await fs.mkdir(path.dirname(statePath));
+    const leases = new PlaylistLeaseService(createPlaylist(['a']).service, { ...config, statePath });
+
+    const { lease } = await leases.claim({ playlistId: PLAYLIST_ID });
+    await fs.rm(path.dirname(statePath), { recursive: true });
+
+    await expect(leases.nack({ leaseId: lease.leaseId })).rejects.toThrow(/Failed to save lease state/);
+    await fs.mkdir(path.dirname(statePath));
+    await expect(leases.nack({ leaseId: lease.leaseId })).resolves.toMatchObject({ released: true });
+  });
+
+  test('refuses to start from a corrupt state file', async () => {
+    await fs.writeFile(config.statePath, '{not json');
+    const leases = new PlaylistLeaseService(createPlaylist(['a']).service, config);
+
+    await expect(leases.claim({ playlistId: PLAYLIST_ID })).rejects.toThrow(/Failed to read lease state/);
+  });
+});
@@ -0,0 +1,85 @@
+import { getQuotaConfig, nextQuotaReset, quotaDay } from '../src/services/quota.js';
+
+// America/Los_Angeles: PDT starts 2024-03-10 02:00 PST (10:00Z), PST returns 2024-11-03 02:00 PDT (09:00Z)
+
+describe('quotaDay', () => {
+  test.each([
+    ['2024-01-15T07:59:59Z', '2024-01-14'],
+    ['2024-01-15T08:00:00Z', '2024-01-15'],
+    ['2024-07-15T06:59:59Z', '2024-07-14'],
+    ['2024-07-15T07:00:00Z', '2024-07-15'],
+    ['2024-03-10T07:59:59Z', '2024-03-09'],
+    ['2024-03-10T10:30:00Z', '2024-03-10'],
+    ['2024-11-03T06:59:59Z', '2024-11-02'],
+    ['2024-11-03T09:30:00Z', '2024-11-03'],
+    ['2024-12-31T23:00:00Z', '2024-12-31'],
+    ['2025-01-01T08:00:00Z', '2025-01-01'],
+  ])('%s is quota day %s', (instant, day) => {
+    expect(quotaDay(new Date(instant))).toBe(day);
+  });
+});
+
+describe('nextQuotaReset', () => {
+  test.each([
+    // Standard and daylight time
+    ['2024-01-15T20:00:00Z', '2024-01-16T08:00:00.000Z'],
+    ['2024-07-15T20:00:00Z', '2024-07-16T07:00:00.000Z'],
+    // The day before a change resets at the old offset
+    ['2024-03-09T20:00:00Z', '2024-03-10T08:00:00.000Z'],
+    ['2024-11-02T20:00:00Z', '2024-11-03T07:00:00.000Z'],
+    // On a change day, before and after the 2 a.m. switch, midnight uses the new offset
+    ['2024-03-10T08:30:00Z', '2024-03-11T07:00:00.000Z'],
+    ['2024-03-10T20:00:00Z', '2024-03-11T07:00:00.000Z'],
+    ['2024-11-03T07:30:00Z', '2024-11-04T08:00:00.000Z'],
+    ['2024-11-03T20:00:00Z', '2024-11-04T08:00:00.000Z'],
+    // Month and year ends
+    ['2024-02-29T20:00:00Z', '2024-03-01T08:00:00.000Z'],
+    ['2024-12-31T20:00:00Z', '2025-01-01T08:00:00.000Z'],
+  ])('after %s is %s', (instant, reset) => {
+    expect(nextQuotaReset(new Date(instant)).toISOString()).toBe(reset);
+  });
+
+  test('exactly at midnight the next reset is a day later', () => {
+    expect(nextQuotaReset(new Date('2024-01-15T08:00:00Z')).toISOString()).toBe('2024-01-16T08:00:00.000Z');
+  });
+
+  test('the reset starts the next quota day', () => {
+    for (const instant of ['2024-03-10T08:30:00Z', '2024-11-03T07:30:00Z', '2024-06-01T12:00:00Z']) {
+      const now = new Date(instant);
+      const reset = nextQuotaReset(now);
+
+      expect(quotaDay(new Date(reset.getTime() - 1))).toBe(quotaDay(now));
+      expect(quotaDay(reset)).not.toBe(quotaDay(now));
+    }
+  });
+});
+
+describe('getQuotaConfig', () => {
+  const budget = process.env.YOUTUBE_QUOTA_BUDGET;
+
+  afterEach(() => {
+    if (budget === undefined) delete process.env.YOUTUBE_QUOTA_BUDGET;
+    else process.env.YOUTUBE_QUOTA_BUDGET = budget;
+    jest.restoreAllMocks();
+  });
+
+  test('uses a configured budget', () => {
+    process.env.YOUTUBE_QUOTA_BUDGET = '25000';
+
+    expect(getQuotaConfig(1).dailyBudget).toBe(25000);
+  });
+
+  test('defaults to one project quota per key', () => {
+    delete process.env.YOUTUBE_QUOTA_BUDGET;
+
+    expect(getQuotaConfig(3).dailyBudget).toBe(30000);
+  });
+
+  test.each(['lots', '10k', '-5', '0', '1.5'])('falls back to the default for %j with a warning', value => {
+    process.env.YOUTUBE_QUOTA_BUDGET = value;
+    const warn = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(getQuotaConfig(2).dailyBudget).toBe(20000);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('YOUTUBE_QUOTA_BUDGET'));
+  });
+});
@@ -0,0 +1,184 @@
+import * as fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getSubtitles } from 'youtube-caption-extractor';
+import {
+  CachedTranscript,
+  DiskTranscriptCache,
+  MemoryTranscriptCache,
+  TieredTranscriptCache,
+  getTranscriptCacheConfig
+} from '../src/services/transcript-cache.js';
+import { TranscriptService } from '../src/services/transcript.js';
+import { useTempDirectory } from './helpers/temp-directory.js';
+
+jest.mock('youtube-caption-extractor', () => ({ getSubtitles: jest.fn() }));
+
+const fetchSubtitles = getSubtitles as jest.MockedFunction<typeof getSubtitles>;
+
+function entry(videoId: string, language = 'en', expiresAt = Date.now() + 60000): CachedTranscript {
+  return { videoId, language, segments: [{ text: `${videoId} text`, start: 0, duration: 1, offset: 0 }], fetchedAt: Date.now(), expiresAt };
+}
+
+const directory = useTempDirectory('transcript-cache-test-');
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('MemoryTranscriptCache', () => {
+  test('evicts the least recently used entry', async () => {
+    const cache = new MemoryTranscriptCache(2);
+
+    await cache.set(entry('a'));
+    await cache.set(entry('b'));
+    await cache.get('a', 'en');
+    await cache.set(entry('c'));
+
+    expect(await cache.get('b', 'en')).toBeNull();
+    expect((await cache.get('a', 'en'))?.videoId).toBe('a');
+    expect((await cache.get('c', 'en'))?.videoId).toBe('c');
+  });
+
+  test('keys entries by video and language', async () => {
+    const cache = new MemoryTranscriptCache();
+
+    await cache.set(entry('a', 'en'));
+
+    expect(await cache.get('a', 'de')).toBeNull();
+  });
+
+  test('drops entries once they expire', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    const cache = new MemoryTranscriptCache();
+
+    await cache.set(entry('a', 'en', Date.now() + 1000));
+    expect(await cache.get('a', 'en')).not.toBeNull();
+
+    jest.setSystemTime(new Date('2024-01-01T00:00:01Z'));
+    expect(await cache.get('a', 'en')).toBeNull();
+  });
+});
+
+describe('DiskTranscriptCache', () => {
+  test('round-trips an entry through a file', async () => {
+    const stored = entry('a/b?c', 'pt-BR');
+
+    await new DiskTranscriptCache(directory.path).set(stored);
+
+    expect(await new DiskTranscriptCache(directory.path).get('a/b?c', 'pt-BR')).toEqual(stored);
+    expect(await fs.readdir(directory.path)).toEqual(['a_b_c.pt-BR.json']);
+  });
+
+  test('treats a missing or corrupted file as a miss', async () => {
+    const cache = new DiskTranscriptCache(directory.path);
+    await fs.writeFile(path.join(directory.path, 'broken.en.json'), '{"videoId":');
+
+    expect(await cache.get('missing', 'en')).toBeNull();
+    expect(await cache.get('broken', 'en')).toBeNull();
+  });
+
+  test('deletes an expired file on read', async () => {
+    const cache = new DiskTranscriptCache(directory.path);
+
+    await cache.set(entry('a', 'en', Date.now() - 1));
+
+    expect(await cache.get('a', 'en')).toBeNull();
+    expect(await fs.readdir(directory.path)).toEqual([]);
+  });
+});
+
+describe('TieredTranscriptCache', () => {
+  test('promotes disk hits into memory', async () => {
+    const memory = new MemoryTranscriptCache();
+    const disk = new DiskTranscriptCache(directory.path);
+    await disk.set(entry('a'));
+
+    expect((await new TieredTranscriptCache(memory, disk).get('a', 'en'))?.videoId).toBe('a');
+    expect((await memory.get('a', 'en'))?.videoId).toBe('a');
+  });
+});
+
+describe('TranscriptService cache modes', () => {
+  const VIDEO_ID = 'dQw4w9WgXcQ';
+
+  beforeEach(() => {
+    fetchSubtitles.mockReset();
+    fetchSubtitles.mockImplementation(async () => [{ start: '0', dur: '1', text: `fetch ${fetchSubtitles.mock.calls.length}` }]);
+  });
+
+  const transcriptOf = (result: any) => [result.metadata.cache.status, result.transcript[0].text];
+
+  test('a second request is served from the cache', async () => {
+    const service = new TranscriptService(new MemoryTranscriptCache(), 3600);
+
+    expect(transcriptOf(await service.getTranscript({ videoId: VIDEO_ID }))).toEqual(['miss', 'fetch 1']);
+    expect(transcriptOf(await service.getTranscript({ videoId: VIDEO_ID }))).toEqual(['hit', 'fetch 1']);
+    expect(fetchSubtitles).toHaveBeenCalledTimes(1);
+  });
+
+  test('bypass fetches without reading or writing the cache', async () => {
+    const service = new TranscriptService(new MemoryTranscriptCache(), 3600);
+
+    await service.getTranscript({ videoId: VIDEO_ID });
+
+    expect(transcriptOf(await service.getTranscript({ videoId: VIDEO_ID, cache: 'bypass' }))).toEqual(['bypass', 'fetch 2']);
+    expect(transcriptOf(await service.getTranscript({ videoId: VIDEO_ID }))).toEqual(['hit', 'fetch 1']);
+  });
+
+  test('refresh fetches again and replaces the cached copy', async () => {
+    const service = new TranscriptService(new MemoryTranscriptCache(), 3600);
+
+    await service.getTranscript({ videoId: VIDEO_ID });
+
+    expect(transcriptOf(await service.getTranscript({ videoId: VIDEO_ID, cache: 'refresh' }))).toEqual(['refresh', 'fetch 2']);
+    expect(transcriptOf(await service.getTranscript({ videoId: VIDEO_ID }))).toEqual(['hit', 'fetch 2']);
+  });
+
+  test('a zero TTL disables caching', async () => {
+    const service = new TranscriptService(new MemoryTranscriptCache(), 0);
+
+    await service.getTranscript({ videoId: VIDEO_ID });
+
+    expect(transcriptOf(await service.getTranscript({ videoId: VIDEO_ID }))).toEqual(['miss', 'fetch 2']);
+  });
+});
+
+describe('getTranscriptCacheConfig', () => {
+  const ENV_NAMES = ['TRANSCRIPT_CACHE_TTL_SECONDS', 'TRANSCRIPT_CACHE_MAX_ENTRIES', 'TRANSCRIPT_CACHE_DIR', 'TRANSCRIPT_CACHE_DISK'];
+  const saved = Object.fromEntries(ENV_NAMES.map(name => [name, process.env[name]]));
+
+  beforeEach(() => {
+    for (const name of ENV_NAMES) delete process.env[name];
+  });
+
+  afterAll(() => {
+    for (const name of ENV_NAMES) {
+      if (saved[name] === undefined) delete process.env[name];
+      else process.env[name] = saved[name];
+    }
+  });
+
+  test('defaults to a day, 50 entries and a directory under the system temp dir', () => {
+    expect(getTranscriptCacheConfig()).toEqual({
+      ttlSeconds: 86400,
+      maxEntries: 50,
+      directory: path.join(os.tmpdir(), 'youtube-mcp-transcripts')
+    });
+  });
+
+  test('reads TTL, size and directory from the environment', () => {
+    process.env.TRANSCRIPT_CACHE_TTL_SECONDS = '0';
+    process.env.TRANSCRIPT_CACHE_MAX_ENTRIES = '5';
+    process.env.TRANSCRIPT_CACHE_DIR = '/var/cache/transcripts';
+
+    expect(getTranscriptCacheConfig()).toEqual({ ttlSeconds: 0, maxEntries: 5, directory: '/var/cache/transcripts' });
+  });
+
+  test('TRANSCRIPT_CACHE_DISK=false keeps the cache in memory', () => {
+    process.env.TRANSCRIPT_CACHE_DISK = 'false';
+    process.env.TRANSCRIPT_CACHE_DIR = '/var/cache/transcripts';
+
+    expect(getTranscriptCacheConfig().directory).toBeUndefined();
+  });
+});
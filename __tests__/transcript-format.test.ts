@@ -0,0 +1,71 @@
+import { formatTimestamp, formatTranscript } from '../src/services/transcript-format.js';
+import { TranscriptFormat, TranscriptSegment } from '../src/types.js';
+
+const segments: TranscriptSegment[] = [
+  { text: 'Hello and welcome', start: 0, duration: 2.5, offset: 0 },
+  { text: 'to the\nshow', start: 2.5, duration: 1.25, offset: 2500 },
+  { text: 'Part two', start: 3725.042, duration: 3, offset: 3725042 },
+];
+
+describe('formatTimestamp', () => {
+  test.each([
+    [0, 'clock', '0:00'],
+    [65.4, 'clock', '1:05'],
+    [3725.042, 'clock', '1:02:05'],
+    [3725.042, 'srt', '01:02:05,042'],
+    [3725.042, 'vtt', '01:02:05.042'],
+    [59.9996, 'srt', '00:01:00,000'],
+    [-1, 'vtt', '00:00:00.000'],
+  ] as const)('%s as %s', (seconds, style, expected) => {
+    expect(formatTimestamp(seconds, style)).toBe(expected);
+  });
+});
+
+describe('formatTranscript', () => {
+  test('srt numbers cues and uses comma milliseconds', () => {
+    expect(formatTranscript(segments.slice(0, 2), 'srt')).toBe(
+      '1\n00:00:00,000 --> 00:00:02,500\nHello and welcome\n\n' +
+      '2\n00:00:02,500 --> 00:00:03,750\nto the\nshow\n'
+    );
+  });
+
+  test('vtt starts with the WEBVTT header and uses dot milliseconds', () => {
+    expect(formatTranscript(segments.slice(0, 2), 'vtt')).toBe(
+      'WEBVTT\n\n' +
+      '00:00:00.000 --> 00:00:02.500\nHello and welcome\n\n' +
+      '00:00:02.500 --> 00:00:03.750\nto the\nshow\n'
+    );
+  });
+
+  test('txt puts one segment per line with inner line breaks flattened', () => {
+    expect(formatTranscript(segments, 'txt')).toBe('Hello and welcome\nto the show\nPart two\n');
+  });
+
+  test('markdown starts a linked section every minute', () => {
+    expect(formatTranscript(segments, 'markdown', 'dQw4w9WgXcQ')).toBe([
+      '# Transcript: dQw4w9WgXcQ',
+      '',
+      '## [0:00](https://youtu.be/dQw4w9WgXcQ?t=0)',
+      '',
+      'Hello and welcome to the show',
+      '',
+      '## [1:02:05](https://youtu.be/dQw4w9WgXcQ?t=3725)',
+      '',
+      'Part two',
+      '',
+    ].join('\n'));
+  });
+
+  test('markdown without a video ID uses plain headings', () => {
+    expect(formatTranscript(segments.slice(0, 1), 'markdown')).toBe('## 0:00\n\nHello and welcome\n');
+  });
+
+  test('json returns the segments', () => {
+    expect(JSON.parse(formatTranscript(segments, 'json'))).toEqual(segments);
+  });
+
+  test('rejects unknown formats', () => {
+    expect(() => formatTranscript(segments, 'docx' as TranscriptFormat))
+      .toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT', details: { field: 'format' } }));
+  });
+});
@@ -0,0 +1,148 @@
+import { TranscriptService } from '../src/services/transcript.js';
+import { TranscriptCache } from '../src/services/transcript-cache.js';
+import { TranscriptSegment } from '../src/types.js';
+
+const VIDEO_ID = 'dQw4w9WgXcQ';
+
+const segments: TranscriptSegment[] = Array.from({ length: 10 }, (_, index) => ({
+  text: `line ${index}`,
+  start: index * 5,
+  duration: 5,
+  offset: index * 5000
+}));
+
+/**
+ * Service reading a fixed transcript from a cache stub, so no captions are fetched
+ */
+function createService(transcript: TranscriptSegment[] = segments): TranscriptService {
+  const cache: TranscriptCache = {
+    get: async (videoId, language) => ({ videoId, language, segments: transcript, fetchedAt: 0, expiresAt: Infinity }),
+    set: async () => undefined,
+    delete: async () => undefined
+  };
+  return new TranscriptService(cache, 3600);
+}
+
+const texts = (result: any): string[] => result.transcript.map((segment: TranscriptSegment) => segment.text);
+
+describe('transcript cursors', () => {
+  test('walks the whole transcript forward with nextCursor', async () => {
+    const service = createService();
+    const pages: string[][] = [];
+
+    let result = await service.getTranscript({ videoId: VIDEO_ID, maxSegments: 4 });
+    pages.push(texts(result));
+    while (result.metadata.nextCursor) {
+      result = await service.getTranscript({ cursor: result.metadata.nextCursor });
+      pages.push(texts(result));
+    }
+
+    expect(pages).toEqual([
+      ['line 0', 'line 1', 'line 2', 'line 3'],
+      ['line 4', 'line 5', 'line 6', 'line 7'],
+      ['line 8', 'line 9']
+    ]);
+    expect(result.metadata.pagination.hasMore).toBe(false);
+  });
+
+  test('prevCursor returns to the preceding page', async () => {
+    const service = createService();
+
+    const first = await service.getTranscript({ videoId: VIDEO_ID, maxSegments: 3 });
+    expect(first.metadata.prevCursor).toBeNull();
+
+    const second = await service.getTranscript({ cursor: first.metadata.nextCursor });
+    const back = await service.getTranscript({ cursor: second.metadata.prevCursor });
+
+    expect(texts(second)).toEqual(['line 3', 'line 4', 'line 5']);
+    expect(texts(back)).toEqual(texts(first));
+  });
+
+  test('cursors carry the original filters', async () => {
+    const service = createService();
+
+    const first = await service.getTranscript({ videoId: VIDEO_ID, startTime: '10', endTime: '40', maxSegments: 2 });
+    const second = await service.getTranscript({ cursor: first.metadata.nextCursor });
+
+    expect(texts(first)).toEqual(['line 2', 'line 3']);
+    expect(texts(second)).toEqual(['line 4', 'line 5']);
+    expect(second.metadata.appliedFilters).toMatchObject({ startTime: '10', endTime: '40', maxSegments: 2 });
+  });
+
+  test('issues no cursors without a page size', async () => {
+    const result = await createService().getTranscript({ videoId: VIDEO_ID });
+
+    expect(result.transcript).toHaveLength(10);
+    expect(result.metadata.nextCursor).toBeNull();
+    expect(result.metadata.prevCursor).toBeNull();
+  });
+
+  test('rejects a cursor for a different video', async () => {
+    const service = createService();
+    const { metadata } = await service.getTranscript({ videoId: VIDEO_ID, maxSegments: 2 });
+
+    await expect(service.getTranscript({ videoId: 'aaaaaaaaaaa', cursor: metadata.nextCursor }))
+      .rejects.toMatchObject({ code: 'INVALID_ARGUMENT', details: { field: 'cursor' } });
+  });
+
+  test('rejects a malformed cursor', async () => {
+    await expect(createService().getTranscript({ cursor: 'not-a-cursor' }))
+      .rejects.toMatchObject({ code: 'INVALID_ARGUMENT', details: { field: 'cursor' } });
+  });
+});
+
+describe('maxTokens packing', () => {
+  // Tokens the service charges for a segment: its compact JSON plus a separator, at ~4 characters per token
+  const tokensOf = (segment: TranscriptSegment) => Math.ceil((JSON.stringify(segment).length + 1) / 4);
+  // Budget that fits exactly the first `count` segments
+  const budgetFor = (count: number) => segments.slice(0, count).reduce((sum, segment) => sum + tokensOf(segment), 0);
+
+  test('packs whole segments up to the budget', async () => {
+    const service = createService();
+
+    const exact = await service.getTranscript({ videoId: VIDEO_ID, maxTokens: budgetFor(3) });
+    const short = await service.getTranscript({ videoId: VIDEO_ID, maxTokens: budgetFor(3) - 1 });
+
+    expect(texts(exact)).toEqual(['line 0', 'line 1', 'line 2']);
+    expect(exact.metadata.estimatedTokens).toBe(budgetFor(3));
+    expect(texts(short)).toEqual(['line 0', 'line 1']);
+  });
+
+  test('estimates against the serialization the MCP server sends', async () => {
+    const result = await createService().getTranscript({ videoId: VIDEO_ID, maxTokens: 60 });
+    const sent = JSON.stringify(result.transcript);
+
+    expect(result.metadata.estimatedTokens).toBeGreaterThanOrEqual(Math.ceil(sent.length / 4));
+    expect(result.metadata.estimatedTokens).toBeLessThanOrEqual(60);
+  });
+
+  test('always returns at least one segment, even one over the budget', async () => {
+    const long = [{ text: 'word '.repeat(200), start: 0, duration: 5, offset: 0 }, ...segments.slice(1)];
+    const result = await createService(long).getTranscript({ videoId: VIDEO_ID, maxTokens: 10 });
+
+    expect(result.transcript).toHaveLength(1);
+    expect(result.metadata.nextCursor).not.toBeNull();
+  });
+
+  test('stops at whichever of maxSegments and maxTokens is reached first', async () => {
+    const service = createService();
+
+    const bySegments = await service.getTranscript({ videoId: VIDEO_ID, maxSegments: 2, maxTokens: 10000 });
+    const byTokens = await service.getTranscript({ videoId: VIDEO_ID, maxSegments: 8, maxTokens: budgetFor(2) });
+
+    expect(bySegments.transcript).toHaveLength(2);
+    expect(byTokens.transcript).toHaveLength(2);
+  });
+
+  test('pages by token budget in both directions', async () => {
+    const service = createService();
+    const first = await service.getTranscript({ videoId: VIDEO_ID, maxTokens: budgetFor(4) });
+    const second = await service.getTranscript({ cursor: first.metadata.nextCursor });
+    const back = await service.getTranscript({ cursor: second.metadata.prevCursor });
+
+    expect(texts(first)).toEqual(['line 0', 'line 1', 'line 2', 'line 3']);
+    expect(texts(second)[0]).toBe('line 4');
+    expect(second.metadata.estimatedTokens).toBeLessThanOrEqual(budgetFor(4));
+    expect(texts(back)).toEqual(texts(first));
+  });
+});
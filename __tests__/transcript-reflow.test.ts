@@ -0,0 +1,89 @@
+import { reflowSegments } from '../src/services/transcript-reflow.js';
+import { TranscriptReflow, TranscriptSegment } from '../src/types.js';
+
+/**
+ * Caption fragments as [text, start, duration]
+ */
+const captions = (...fragments: Array<[string, number, number]>): TranscriptSegment[] =>
+  fragments.map(([text, start, duration]) => ({ text, start, duration, offset: Math.round(start * 1000) }));
+
+const texts = (segments: TranscriptSegment[]) => segments.map(segment => segment.text);
+
+describe('reflowSegments', () => {
+  describe('sentences', () => {
+    test('closes a sentence on terminal punctuation', () => {
+      const merged = reflowSegments(captions(
+        ['so today we', 0, 1],
+        ['look at reflow.', 1, 1],
+        ['Then we', 2, 1],
+        ['test it!', 3, 1],
+      ), 'sentences');
+
+      expect(texts(merged)).toEqual(['so today we look at reflow.', 'Then we test it!']);
+      expect(merged[0]).toEqual({ text: 'so today we look at reflow.', start: 0, duration: 2, offset: 0 });
+      expect(merged[1]).toMatchObject({ start: 2, duration: 2, offset: 2000 });
+    });
+
+    test('closes unpunctuated captions on a pause', () => {
+      const merged = reflowSegments(captions(
+        ['no punctuation', 0, 1],
+        ['here', 1, 1],
+        ['after a pause', 3.5, 1],
+      ), 'sentences');
+
+      expect(texts(merged)).toEqual(['no punctuation here', 'after a pause']);
+    });
+
+    test('closes a run-on sentence after 30 seconds', () => {
+      const fragments = Array.from({ length: 20 }, (_, index): [string, number, number] => [`word${index}`, index * 2, 2]);
+      const merged = reflowSegments(captions(...fragments), 'sentences');
+
+      expect(merged.length).toBeGreaterThan(1);
+      expect(merged.every(segment => segment.duration <= 32)).toBe(true);
+      expect(texts(merged).join(' ')).toBe(fragments.map(([text]) => text).join(' '));
+    });
+
+    test('normalizes whitespace inside fragments', () => {
+      const merged = reflowSegments(captions(['  spaced\n out ', 0, 1], ['text.', 1, 1]), 'sentences');
+
+      expect(texts(merged)).toEqual(['spaced out text.']);
+    });
+  });
+
+  test('paragraphs group sentences until a longer pause', () => {
+    const merged = reflowSegments(captions(
+      ['First sentence.', 0, 2],
+      ['Second sentence.', 2.2, 2],
+      ['New topic.', 8, 2],
+    ), 'paragraphs');
+
+    expect(texts(merged)).toEqual(['First sentence. Second sentence.', 'New topic.']);
+    expect(merged[0]).toMatchObject({ start: 0, duration: 4.2 });
+  });
+
+  test('fixedWindow groups by window of video time', () => {
+    const merged = reflowSegments(captions(
+      ['a', 0, 4],
+      ['b', 9, 4],
+      ['c', 10, 4],
+      ['d', 25, 4],
+    ), 'fixedWindow', 10);
+
+    expect(texts(merged)).toEqual(['a b', 'c', 'd']);
+    expect(merged.map(segment => segment.start)).toEqual([0, 10, 25]);
+  });
+
+  test('returns no segments for an empty transcript', () => {
+    expect(reflowSegments([], 'paragraphs')).toEqual([]);
+  });
+
+  test('rejects a non-positive window', () => {
+    expect(() => reflowSegments(captions(['a', 0, 1]), 'fixedWindow', 0))
+      .toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT', details: { field: 'windowSeconds' } }));
+  });
+
+  test('rejects unknown modes', () => {
+    expect(() => reflowSegments(captions(['a', 0, 1]), 'chapters' as TranscriptReflow))
+      .toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT', details: { field: 'reflow' } }));
+  });
+});
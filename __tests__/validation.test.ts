@@ -0,0 +1,86 @@
+import { ToolArgumentError, validateArguments } from '../src/tools/validation.js';
+import { ToolInputSchema } from '../src/tools/registry.js';
+
+const schema: ToolInputSchema = {
+  type: 'object',
+  properties: {
+    videoId: { type: 'string' },
+    maxResults: { type: 'integer', minimum: 1, maximum: 50 },
+    threshold: { type: 'number' },
+    enrich: { type: 'boolean' },
+    order: { type: 'string', enum: ['date', 'viewCount'] },
+    videoIds: { type: 'array', items: { type: 'string' } },
+    options: { type: 'object' },
+  },
+  required: ['videoId'],
+};
+
+/**
+ * The ToolArgumentError thrown for `args`
+ */
+function rejection(args: unknown): ToolArgumentError {
+  try {
+    validateArguments(schema, args);
+  } catch (error) {
+    return error as ToolArgumentError;
+  }
+  throw new Error('Expected validateArguments to throw');
+}
+
+describe('validateArguments', () => {
+  test('passes valid arguments through', () => {
+    const args = { videoId: 'abc', maxResults: 10, enrich: true, order: 'date', videoIds: ['a', 'b'], options: { a: 1 } };
+
+    expect(validateArguments(schema, args)).toEqual(args);
+  });
+
+  test('coerces strings from query parameters', () => {
+    expect(validateArguments(schema, {
+      videoId: 'abc',
+      maxResults: '25',
+      threshold: '0.5',
+      enrich: 'false',
+      videoIds: 'a, b,,c',
+    })).toEqual({ videoId: 'abc', maxResults: 25, threshold: 0.5, enrich: false, videoIds: ['a', 'b', 'c'] });
+  });
+
+  test('coerces numbers to strings and a lone value to an array', () => {
+    expect(validateArguments(schema, { videoId: 123, videoIds: 7 })).toEqual({ videoId: '123', videoIds: ['7'] });
+  });
+
+  test('drops undeclared properties and nulls', () => {
+    expect(validateArguments(schema, { videoId: 'abc', unknown: 1, order: null })).toEqual({ videoId: 'abc' });
+  });
+
+  test('treats missing arguments as an empty object', () => {
+    expect(() => validateArguments(schema, undefined)).toThrow('Missing required argument "videoId" (string)');
+  });
+
+  test.each([
+    [{ videoId: '' }, 'videoId', 'string'],
+    [{ videoId: 'abc', maxResults: 'ten' }, 'maxResults', 'integer'],
+    [{ videoId: 'abc', maxResults: 2.5 }, 'maxResults', 'integer'],
+    [{ videoId: 'abc', maxResults: 0 }, 'maxResults', 'integer >= 1'],
+    [{ videoId: 'abc', maxResults: '51' }, 'maxResults', 'integer <= 50'],
+    [{ videoId: 'abc', threshold: 'NaN' }, 'threshold', 'number'],
+    [{ videoId: 'abc', enrich: 'yes' }, 'enrich', 'boolean'],
+    [{ videoId: 'abc', order: 'relevance' }, 'order', 'one of "date", "viewCount"'],
+    [{ videoId: 'abc', videoIds: [1, {}] }, 'videoIds[1]', 'string'],
+    [{ videoId: 'abc', options: [] }, 'options', 'object'],
+  ])('rejects %j', (args, field, expected) => {
+    const error = rejection(args);
+
+    expect(error).toBeInstanceOf(ToolArgumentError);
+    expect(error).toMatchObject({ code: 'INVALID_ARGUMENT', httpStatus: 400, field, expected });
+    expect(error.toJSON()).toMatchObject({ field, expected });
+  });
+
+  test('names the field and the received value in the message', () => {
+    expect(rejection({ videoId: 'abc', maxResults: 'ten' }).message)
+      .toBe('Invalid argument "maxResults": expected integer, received string "ten"');
+  });
+
+  test('rejects arguments that are not an object', () => {
+    expect(rejection(['abc'])).toMatchObject({ field: '(root)', expected: 'object' });
+  });
+});
@@ -0,0 +1,63 @@
+import { VideoService } from '../src/services/video.js';
+import { createFakeClient } from './helpers/youtube-client.js';
+
+/**
+ * Video service whose videos.list returns the requested IDs that are not in `missing`,
+ * in reverse order, after a delay that makes later batches finish first
+ */
+function createService(missing: string[] = []) {
+  const batches: string[][] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const { client, calls } = createFakeClient({
+    videos: {
+      list: async ({ id }: { id: string[] }) => {
+        batches.push(id);
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 20 - batches.length * 4));
+        inFlight--;
+        const found = id.filter(videoId => !missing.includes(videoId));
+        return { data: { items: found.reverse().map(videoId => ({ id: videoId, snippet: { title: `Video ${videoId}` } })) } };
+      }
+    }
+  });
+
+  return { videos: new VideoService(client), calls, batches, maxInFlight: () => maxInFlight };
+}
+
+const ids = (count: number) => Array.from({ length: count }, (_, index) => `v${index}`);
+
+describe('VideoService.getVideos', () => {
+  test('fetches more than 50 IDs in batches of 50 and keeps the requested order', async () => {
+    const { videos, calls, batches } = createService(['v7', 'v120']);
+
+    const result = await videos.getVideos({ videoIds: ids(130) });
+
+    expect(calls).toHaveLength(3);
+    expect(batches.map(batch => batch.length)).toEqual([50, 50, 30]);
+    expect(Object.keys(result.videos)).toEqual(ids(130));
+    expect(result.videos.v0).toEqual({ found: true, video: expect.objectContaining({ id: 'v0' }) });
+    expect(result.videos.v7).toEqual({ found: false, reason: 'notFoundOrPrivate' });
+    expect(result).toMatchObject({ requested: 130, found: 128, notFound: ['v7', 'v120'] });
+  });
+
+  test('runs at most `concurrency` batches at once', async () => {
+    const { videos, calls, maxInFlight } = createService();
+
+    await videos.getVideos({ videoIds: ids(250), concurrency: 2 });
+
+    expect(calls).toHaveLength(5);
+    expect(maxInFlight()).toBe(2);
+  });
+
+  test('drops blanks and duplicates before batching', async () => {
+    const { videos, batches } = createService();
+
+    const result = await videos.getVideos({ videoIds: [' v1 ', 'v2', '', 'v1'] });
+
+    expect(batches).toEqual([['v1', 'v2']]);
+    expect(result.requested).toBe(2);
+  });
+});
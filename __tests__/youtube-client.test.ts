@@ -0,0 +1,167 @@
+import { youtube_v3 } from 'googleapis';
+import { ClientTiming, RequestOptions, YouTubeClientConfig, YouTubeClientProvider } from '../src/services/youtube-client.js';
+import { QuotaEndpoint, QuotaLedger } from '../src/services/quota.js';
+import { ApiKeyPool } from '../src/services/api-keys.js';
+import { toServiceError } from '../src/errors.js';
+
+const CONFIG: YouTubeClientConfig = {
+  retry: { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 1500, timeoutMs: 2000 },
+  rateLimit: { requestsPerSecond: 0, burst: 1 }
+};
+
+/**
+ * Virtual clock: sleeping advances time instantly and is recorded
+ */
+function createTiming(random = () => 1) {
+  const timing = {
+    time: 0,
+    sleeps: [] as number[],
+    now: () => timing.time,
+    sleep: async (ms: number) => {
+      timing.sleeps.push(ms);
+      timing.time += ms;
+    },
+    random
+  };
+  return timing;
+}
+
+/**
+ * Provider whose API-key clients are plain `{ auth }` objects, so a request can see which key it got
+ */
+function createProvider(timing: ClientTiming, config = CONFIG, keys = ['key-aaaa1111', 'key-bbbb2222']) {
+  const pool = new ApiKeyPool(keys);
+  const provider = new YouTubeClientProvider(config, new QuotaLedger({ dailyBudget: 1000000, degradeAt: 1 }), pool, timing);
+  provider.createClient = auth => ({ auth }) as unknown as youtube_v3.Youtube;
+  return { provider, pool };
+}
+
+function apiError(status: number, reason?: string): Error {
+  return Object.assign(new Error(reason || `HTTP ${status}`), {
+    response: { status },
+    ...(reason && { errors: [{ reason }] })
+  });
+}
+
+/**
+ * Request that throws the given errors in turn, then succeeds
+ */
+function failingRequest(...errors: Error[]) {
+  return jest.fn(async (youtube: any, _options: RequestOptions) => {
+    const error = errors.shift();
+    if (error) throw error;
+    return youtube.auth;
+  });
+}
+
+describe('YouTubeClientProvider.call', () => {
+  test('retries retryable read failures', async () => {
+    const timing = createTiming();
+    const { provider } = createProvider(timing);
+    const request = failingRequest(apiError(503), apiError(429), apiError(403, 'rateLimitExceeded'));
+
+    await expect(provider.call('videos.list', request)).resolves.toBe('key-aaaa1111');
+    expect(request).toHaveBeenCalledTimes(4);
+  });
+
+  test('gives up after maxRetries', async () => {
+    const { provider } = createProvider(createTiming());
+    const request = failingRequest(...Array.from({ length: 5 }, () => apiError(500)));
+
+    await expect(provider.call('search.list', request)).rejects.toMatchObject({ response: { status: 500 } });
+    expect(request).toHaveBeenCalledTimes(4);
+  });
+
+  test('does not retry errors that will not go away', async () => {
+    const { provider } = createProvider(createTiming());
+    const request = failingRequest(apiError(404, 'videoNotFound'));
+
+    await expect(provider.call('videos.list', request)).rejects.toThrow('videoNotFound');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  test.each<QuotaEndpoint>(['playlistItems.insert', 'playlistItems.delete', 'comments.setModerationStatus'])('never retries %s', async endpoint => {
+    const timing = createTiming();
+    const { provider } = createProvider(timing);
+    const request = failingRequest(apiError(503));
+
+    await expect(provider.call(endpoint, request)).rejects.toMatchObject({ response: { status: 503 } });
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(timing.sleeps).toEqual([]);
+  });
+
+  test('backoff delays are capped exponential with full jitter', async () => {
+    const upper = createTiming(() => 1);
+    await createProvider(upper).provider.call('videos.list', failingRequest(apiError(500), apiError(500), apiError(500))).catch(() => undefined);
+
+    const lower = createTiming(() => 0);
+    await createProvider(lower).provider.call('videos.list', failingRequest(apiError(500), apiError(500), apiError(500))).catch(() => undefined);
+
+    const middle = createTiming(() => 0.5);
+    await createProvider(middle).provider.call('videos.list', failingRequest(apiError(500), apiError(500), apiError(500))).catch(() => undefined);
+
+    expect(upper.sleeps).toEqual([500, 1000, 1500]);
+    expect(lower.sleeps).toEqual([0, 0, 0]);
+    expect(middle.sleeps).toEqual([250, 500, 750]);
+  });
+
+  test('throttles requests beyond the burst to the configured rate', async () => {
+    const timing = createTiming();
+    const { provider } = createProvider(timing, { ...CONFIG, rateLimit: { requestsPerSecond: 2, burst: 2 } });
+    const startedAt: number[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      await provider.call('videos.list', async () => startedAt.push(timing.now()));
+    }
+
+    expect(startedAt).toEqual([0, 0, 500, 1000]);
+    expect(timing.sleeps).toEqual([500, 500]);
+  });
+
+  test('passes the per-attempt timeout and retries a read that timed out', async () => {
+    const { provider } = createProvider(createTiming());
+    const request = failingRequest(Object.assign(new Error('timeout of 2000ms exceeded'), { code: 'ETIMEDOUT' }));
+
+    await expect(provider.call('videos.list', request)).resolves.toBe('key-aaaa1111');
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(request.mock.calls.map(([, options]) => options)).toEqual([{ timeout: 2000 }, { timeout: 2000 }]);
+  });
+
+  test('parks a key that ran out of quota and repeats the call on the next one', async () => {
+    const timing = createTiming();
+    const { provider, pool } = createProvider(timing);
+    const request = failingRequest(apiError(403, 'quotaExceeded'));
+
+    await expect(provider.call('videos.list', request)).resolves.toBe('key-bbbb2222');
+    expect(timing.sleeps).toEqual([]);
+    expect(pool.getHealth().map(key => key.status)).toEqual(['exhausted', 'active']);
+  });
+
+  test('reports quota exceeded once every key is parked', async () => {
+    const { provider } = createProvider(createTiming());
+    const request = failingRequest(apiError(403, 'quotaExceeded'), apiError(403, 'dailyLimitExceeded'));
+
+    const error = await provider.call('videos.list', request).catch(toServiceError);
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(error).toMatchObject({ code: 'QUOTA_EXCEEDED', httpStatus: 429, details: { endpoint: 'videos.list' } });
+  });
+
+  test('an OAuth client bypasses the key pool', async () => {
+    const { provider } = createProvider(createTiming(), CONFIG, []);
+    const oauthClient = { auth: 'oauth' } as unknown as youtube_v3.Youtube;
+
+    await expect(provider.call('playlists.insert', async youtube => (youtube as any).auth, oauthClient)).resolves.toBe('oauth');
+  });
+
+  test('without API keys fails as a configuration error', async () => {
+    const { provider } = createProvider(createTiming(), CONFIG, []);
+    const request = jest.fn();
+
+    const error = toServiceError(await provider.call('videos.list', request).catch(caught => caught));
+
+    expect(error).toMatchObject({ code: 'NOT_CONFIGURED', httpStatus: 503, retryable: false });
+    expect(error.message).toMatch(/No YouTube API key configured/);
+    expect(request).not.toHaveBeenCalled();
+  });
+});
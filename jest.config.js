@@ -1,15 +1,16 @@
 export default {
-  preset: 'ts-jest',
   testEnvironment: 'node',
   testMatch: ['**/__tests__/**/*.test.ts'],
   collectCoverageFrom: [
     'src/**/*.ts',
     '!src/**/*.d.ts',
   ],
-  extensionsToTreatAsEsm: ['.ts'],
-  globals: {
-    'ts-jest': {
-      useESM: true
-    }
-  }
-};
\ No newline at end of file
+  // Transpile only: type-checking is left to `tsc --noEmit`, which keeps jest within the test script's heap limit
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { isolatedModules: true, module: 'commonjs', allowJs: false } }],
+  },
+  // Sources import siblings with the .js extension the ESM build needs
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
+};
@@ -4,9 +4,34 @@ export interface TransportConfig {
   host?: string;
 }
 
+/**
+ * Retry policy for YouTube Data API calls
+ */
+export interface RetryConfig {
+  maxRetries: number;     // Retries after the first attempt (reads only)
+  baseDelayMs: number;    // Backoff base; delay is random(0, base * 2^attempt)
+  maxDelayMs: number;     // Cap on a single backoff delay
+  timeoutMs: number;      // Per-attempt request timeout
+}
+
+/**
+ * Token-bucket limit for outgoing YouTube Data API requests
+ */
+export interface RateLimitConfig {
+  requestsPerSecond: number;  // 0 disables limiting
+  burst: number;
+}
+
 export interface ServerConfig {
   transport: TransportConfig;
   debug?: boolean;
+  retry: RetryConfig;
+  rateLimit: RateLimitConfig;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  return value !== undefined && value !== '' ? Number(value) : fallback;
 }
 
 export function parseArgs(args: string[]): ServerConfig {
@@ -17,7 +42,17 @@ export function parseArgs(args: string[]): ServerConfig {
       port: process.env.PORT ? parseInt(process.env.PORT, 10) : 3002,
       host: process.env.HOST || '127.0.0.1'
     },
-    debug: process.env.DEBUG === 'true' || false
+    debug: process.env.DEBUG === 'true' || false,
+    retry: {
+      maxRetries: envNumber('YOUTUBE_MAX_RETRIES', 3),
+      baseDelayMs: envNumber('YOUTUBE_RETRY_BASE_DELAY_MS', 500),
+      maxDelayMs: envNumber('YOUTUBE_RETRY_MAX_DELAY_MS', 10000),
+      timeoutMs: envNumber('YOUTUBE_REQUEST_TIMEOUT_MS', 15000)
+    },
+    rateLimit: {
+      requestsPerSecond: envNumber('YOUTUBE_RATE_LIMIT_RPS', 10),
+      burst: envNumber('YOUTUBE_RATE_LIMIT_BURST', 20)
+    }
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -39,6 +74,15 @@ export function parseArgs(args: string[]): ServerConfig {
       case '--debug':
         config.debug = true;
         break;
+      case '--max-retries':
+        config.retry.maxRetries = parseInt(args[++i], 10);
+        break;
+      case '--request-timeout':
+        config.retry.timeoutMs = parseInt(args[++i], 10);
+        break;
+      case '--rate-limit':
+        config.rateLimit.requestsPerSecond = parseFloat(args[++i]);
+        break;
       case '--help':
         process.stderr.write(`
 YouTube MCP Server
@@ -50,6 +94,9 @@ Options:
   --port <number>          Port for HTTP transport (default: 3002)
   --host <string>          Host for HTTP transport (default: 127.0.0.1)
   --debug                  Enable debug logging
+  --max-retries <number>   Retries for failed YouTube API reads (default: 3)
+  --request-timeout <ms>   Per-request timeout for YouTube API calls (default: 15000)
+  --rate-limit <number>    Max YouTube API requests per second, 0 = unlimited (default: 10)
   --help                   Show this help message
 
 Environment Variables:
@@ -57,7 +104,17 @@ Environment Variables:
   PORT                   Port for HTTP transport
   HOST                   Host for HTTP transport
   DEBUG                  Enable debug logging (true/false)
+  CORS_ALLOWED_ORIGINS   Browser origins allowed to call the HTTP API (comma-separated, default all)
   YOUTUBE_API_KEY        YouTube Data API v3 key
+  YOUTUBE_API_KEYS       Comma-separated keys, rotated when one runs out of quota
+  YOUTUBE_API_KEYS_FILE  File with one key per line (or a JSON array)
+  YOUTUBE_QUOTA_BUDGET   Daily quota budget in units (default: 10000 per API key)
+  YOUTUBE_MAX_RETRIES    Retries for failed YouTube API reads
+  YOUTUBE_REQUEST_TIMEOUT_MS  Per-request timeout
+  YOUTUBE_RATE_LIMIT_RPS Max YouTube API requests per second
+  YOUTUBE_QUOTA_STATE_PATH  File used to persist the day's quota usage
+  TRANSCRIPT_CACHE_TTL_SECONDS  Transcript cache TTL (0 disables caching)
+  TRANSCRIPT_CACHE_DIR   Directory for the on-disk transcript cache
 
 Examples:
   node build/index.js                              # stdio (local use)
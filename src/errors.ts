@@ -0,0 +1,168 @@
+import { QuotaBudgetError } from './services/quota.js';
+import { getErrorReason, getErrorStatus, isQuotaExceededError, isRetryableError } from './services/api-errors.js';
+
+/**
+ * Stable error codes returned to MCP and HTTP clients
+ */
+export type ErrorCode =
+  | 'NOT_FOUND'
+  | 'QUOTA_EXCEEDED'
+  | 'AUTH_REQUIRED'
+  | 'CAPTIONS_UNAVAILABLE'
+  | 'INVALID_ARGUMENT'
+  | 'NOT_CONFIGURED'
+  | 'UPSTREAM_ERROR';
+
+/**
+ * Base class for errors surfaced to clients
+ * `details` is merged into the serialized error (e.g. field, resetsAt, authUrl)
+ */
+export class ServiceError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly httpStatus: number,
+    readonly retryable: boolean = false,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'ServiceError';
+  }
+
+  toJSON(): { code: ErrorCode; message: string; retryable: boolean; [key: string]: unknown } {
+    return { code: this.code, message: this.message, retryable: this.retryable, ...this.details };
+  }
+}
+
+export class NotFoundError extends ServiceError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super('NOT_FOUND', message, 404, false, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class QuotaExceededError extends ServiceError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super('QUOTA_EXCEEDED', message, 429, false, details);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class AuthRequiredError extends ServiceError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super('AUTH_REQUIRED', message, 401, false, details);
+    this.name = 'AuthRequiredError';
+  }
+}
+
+export class CaptionsUnavailableError extends ServiceError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super('CAPTIONS_UNAVAILABLE', message, 404, false, details);
+    this.name = 'CaptionsUnavailableError';
+  }
+}
+
+export class InvalidArgumentError extends ServiceError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super('INVALID_ARGUMENT', message, 400, false, details);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+export class NotConfiguredError extends ServiceError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super('NOT_CONFIGURED', message, 503, false, details);
+    this.name = 'NotConfiguredError';
+  }
+}
+
+export class UpstreamError extends ServiceError {
+  constructor(message: string, retryable: boolean, details: Record<string, unknown> = {}, httpStatus = 502) {
+    super('UPSTREAM_ERROR', message, httpStatus, retryable, details);
+    this.name = 'UpstreamError';
+  }
+}
+
+// YouTube error reasons that mean the requested resource does not exist
+const NOT_FOUND_REASONS = new Set([
+  'notFound',
+  'videoNotFound',
+  'channelNotFound',
+  'playlistNotFound',
+  'playlistItemNotFound',
+  'commentNotFound',
+  'commentThreadNotFound',
+  'parentCommentNotFound',
+]);
+
+// YouTube error reasons that mean the caller is not (sufficiently) authenticated
+const AUTH_REASONS = new Set([
+  'authError',
+  'insufficientPermissions',
+  'forbidden',
+  'youtubeSignupRequired',
+]);
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Map any thrown value onto the error taxonomy
+ *
+ * `context` (e.g. "Failed to get video") is prefixed to the message of errors
+ * that are not already ServiceErrors.
+ */
+export function toServiceError(error: unknown, context?: string): ServiceError {
+  if (error instanceof ServiceError) return error;
+
+  const message = context ? `${context}: ${errorMessage(error)}` : errorMessage(error);
+
+  if (error instanceof QuotaBudgetError) {
+    return new QuotaExceededError(message, { endpoint: error.endpoint, resetsAt: error.resetsAt });
+  }
+
+  const status = getErrorStatus(error);
+  const reason = getErrorReason(error);
+  const details = { ...(status !== undefined && { upstreamStatus: status }), ...(reason && { reason }) };
+
+  if (isQuotaExceededError(error)) {
+    return new QuotaExceededError(message, details);
+  }
+  if (status === 404 || (reason && NOT_FOUND_REASONS.has(reason))) {
+    return new NotFoundError(message, details);
+  }
+  if (status === 401 || (status === 403 && reason && AUTH_REASONS.has(reason))) {
+    return new AuthRequiredError(message, details);
+  }
+  if (status === 400) {
+    return new InvalidArgumentError(message, details);
+  }
+  if (status !== undefined || isRetryableError(error)) {
+    return new UpstreamError(message, isRetryableError(error), details);
+  }
+
+  // Not an API failure: an internal error rather than an upstream one
+  return new UpstreamError(message, false, details, 500);
+}
+
+/**
+ * Map a youtube-caption-extractor failure onto the error taxonomy
+ * The library throws plain Errors ("Player API failed: 429 ...", "Caption fetch failed: 404")
+ */
+export function toCaptionError(error: unknown, videoId: string, language: string): ServiceError {
+  if (error instanceof ServiceError) return error;
+
+  const message = errorMessage(error);
+  const details = { videoId, language };
+  const statusMatch = message.match(/failed: (\d{3})/);
+  const status = statusMatch ? Number(statusMatch[1]) : undefined;
+
+  if (status !== undefined && (status >= 500 || status === 429)) {
+    return new UpstreamError(`Caption service error for video ${videoId}: ${message}`, true, { ...details, upstreamStatus: status });
+  }
+  if (status !== undefined || /empty or invalid/i.test(message)) {
+    return new CaptionsUnavailableError(`No captions available for video ${videoId} in language ${language}: ${message}`, details);
+  }
+  return new UpstreamError(`Failed to fetch captions for video ${videoId}: ${message}`, isRetryableError(error) || error instanceof TypeError, details);
+}
@@ -4,32 +4,45 @@ import { URL } from 'url';
 import { TranscriptService } from './services/transcript.js';
 import { VideoService } from './services/video.js';
 import { PlaylistService } from './services/playlist.js';
+import { getYouTubeClientProvider } from './services/youtube-client.js';
+import { IdResolver } from './services/id-resolver.js';
+import { TranscriptFormat } from './types.js';
+import { ToolRegistry, RouteMatch, createToolRegistry } from './tools/index.js';
+import { InvalidArgumentError, NotFoundError, toServiceError } from './errors.js';
+import { handleCors } from './transports/cors.js';
+
+// File extension accepted by GET /api/transcript/:videoId.<ext> → transcript format
+const TRANSCRIPT_EXTENSIONS: Record<string, TranscriptFormat> = {
+  srt: 'srt',
+  vtt: 'vtt',
+  txt: 'txt',
+  md: 'markdown'
+};
 
 export class HttpApiServer {
-  private transcriptService = new TranscriptService();
-  private videoService = new VideoService();
-  private playlistService = new PlaylistService();
+  private registry: ToolRegistry;
+  private transcriptService: TranscriptService;
+  private videoService: VideoService;
+  private playlistService: PlaylistService;
+  private idResolver: IdResolver;
+
+  constructor(registry: ToolRegistry = createToolRegistry()) {
+    this.registry = registry;
+    this.transcriptService = registry.services.transcriptService;
+    this.videoService = registry.services.videoService;
+    this.playlistService = registry.services.playlistService;
+    this.idResolver = registry.services.idResolver;
+  }
 
   async start(port: number = 3000): Promise<void> {
     const server = http.createServer(async (req, res) => {
-      // CORS headers
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-      if (req.method === 'OPTIONS') {
-        res.writeHead(200);
-        res.end();
-        return;
-      }
+      // CORS: configured browser origins, or any when unset
+      if (!handleCors(req, res, 'Content-Type, Idempotency-Key')) return;
 
       try {
         await this.handleRequest(req, res);
       } catch (error) {
-        res.writeHead(500, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({
-          error: error instanceof Error ? error.message : 'Unknown error'
-        }));
+        this.sendError(res, error);
       }
     });
 
@@ -46,7 +59,7 @@ export class HttpApiServer {
     // Health check
     if (path === '/health') {
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ status: 'ok' }));
+      res.end(JSON.stringify({ status: 'ok', apiKeys: getYouTubeClientProvider().getKeyHealth() }));
       return;
     }
 
@@ -54,26 +67,26 @@ export class HttpApiServer {
     if (method === 'GET' && path.startsWith('/api/playlist/next-video')) {
       const playlistId = url.searchParams.get('playlistId');
       if (!playlistId) {
-        res.writeHead(400, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'playlistId parameter required' }));
+        this.sendError(res, new InvalidArgumentError('playlistId parameter required', { field: 'playlistId' }));
         return;
       }
 
       try {
-        const nextVideo = await this.playlistService.getNextVideoToProcess(playlistId);
+        // Accepts a playlist URL as well as a raw ID
+        const resolvedId = await this.idResolver.resolvePlaylistId(playlistId);
+        const resolvedIds = resolvedId !== playlistId ? { resolvedIds: { playlistId: resolvedId } } : {};
+
+        const nextVideo = await this.playlistService.getNextVideoToProcess(resolvedId);
         if (!nextVideo) {
           res.writeHead(200, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ nextVideo: null, message: 'No videos in playlist' }));
+          res.end(JSON.stringify({ nextVideo: null, message: 'No videos in playlist', ...resolvedIds }));
           return;
         }
 
         res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ nextVideo }));
+        res.end(JSON.stringify({ nextVideo, ...resolvedIds }));
       } catch (error) {
-        res.writeHead(400, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({
-          error: error instanceof Error ? error.message : 'Unknown error'
-        }));
+        this.sendError(res, error);
       }
       return;
     }
@@ -85,36 +98,48 @@ export class HttpApiServer {
       return;
     }
 
-    // DELETE /api/playlist/remove-video - Remove video from playlist
-    if (method === 'DELETE' && path === '/api/playlist/remove-video') {
-      const body = await this.readBody(req);
-      await this.handleRemoveVideo(body, res);
+    // GET /api/transcript/:videoId.{srt,vtt,txt,md} - Download transcript as a subtitle/text file
+    const transcriptExport = method === 'GET' ? path.match(/^\/api\/transcript\/([^/.]+)\.(srt|vtt|txt|md)$/) : null;
+    if (transcriptExport) {
+      await this.handleTranscriptExport(transcriptExport[1], TRANSCRIPT_EXTENSIONS[transcriptExport[2]], url.searchParams, res);
       return;
     }
 
-    // POST /api/playlist/add-video - Add video to playlist
-    if (method === 'POST' && path === '/api/playlist/add-video') {
+    // POST /api/oauth/exchange - Exchange authorization code for tokens
+    if (method === 'POST' && path === '/api/oauth/exchange') {
       const body = await this.readBody(req);
-      await this.handleAddVideo(body, res);
+      await this.handleOAuthExchange(body, res);
       return;
     }
 
-    // GET /api/oauth/status - Check OAuth authentication status
-    if (method === 'GET' && path === '/api/oauth/status') {
-      await this.handleOAuthStatus(res);
+    // Tool routes generated from the registry (e.g. GET /api/videos/:videoId,
+    // POST /api/playlist/add-video, DELETE /api/playlist/remove-video)
+    let routeMatch: RouteMatch | null;
+    try {
+      routeMatch = this.registry.matchRoute(method || 'GET', path);
+    } catch (error) {
+      this.sendError(res, error);
       return;
     }
-
-    // POST /api/oauth/exchange - Exchange authorization code for tokens
-    if (method === 'POST' && path === '/api/oauth/exchange') {
-      const body = await this.readBody(req);
-      await this.handleOAuthExchange(body, res);
+    if (routeMatch) {
+      const body = method === 'GET' ? {} : await this.readBody(req);
+      await this.handleToolRoute(routeMatch, url.searchParams, body, req.headers, res);
       return;
     }
 
     // 404
-    res.writeHead(404, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: 'Not found' }));
+    this.sendError(res, new NotFoundError('Not found'));
+  }
+
+  /**
+   * Write an error as JSON with the HTTP status of its code
+   * Body: { error: message, code, retryable, ...details, ...extra }
+   */
+  private sendError(res: http.ServerResponse, error: unknown, extra: Record<string, unknown> = {}): void {
+    const serviceError = toServiceError(error);
+    const { message, ...rest } = serviceError.toJSON();
+    res.writeHead(serviceError.httpStatus, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: message, ...rest, ...extra }));
   }
 
   private async readBody(req: http.IncomingMessage): Promise<any> {
@@ -123,9 +148,9 @@ export class HttpApiServer {
       req.on('data', chunk => body += chunk);
       req.on('end', () => {
         try {
-          resolve(JSON.parse(body));
+          resolve(body ? JSON.parse(body) : {});
         } catch (error) {
-          reject(new Error('Invalid JSON'));
+          reject(new InvalidArgumentError('Invalid JSON body'));
         }
       });
     });
@@ -136,17 +161,19 @@ export class HttpApiServer {
    * Reuses core TranscriptService for consistency with MCP
    */
   private async handleTranscribeVideo(body: any, res: http.ServerResponse): Promise<void> {
-    const { videoId } = body;
+    const { videoId: videoRef } = body;
 
-    if (!videoId) {
-      res.writeHead(400, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'videoId required' }));
+    if (!videoRef) {
+      this.sendError(res, new InvalidArgumentError('videoId required', { field: 'videoId' }));
       return;
     }
 
     const startTime = Date.now();
 
     try {
+      // Accepts watch/shorts/youtu.be URLs as well as a raw ID
+      const videoId = await this.idResolver.resolveVideoId(videoRef);
+
       // Get video metadata
       const videoInfo = await this.videoService.getVideo({ videoId });
 
@@ -179,101 +206,66 @@ export class HttpApiServer {
 
     } catch (error) {
       console.error('Transcription error:', error);
-      res.writeHead(400, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({
-        error: error instanceof Error ? error.message : 'Unknown error',
-        videoId
-      }));
+      this.sendError(res, error, { videoId: videoRef });
     }
   }
 
   /**
-   * Handle video removal from playlist
-   * Reuses core PlaylistService for consistency with MCP
+   * Handle transcript export in a standard subtitle/text format
+   * Query parameters mirror the transcripts_getTranscript tool arguments and go
+   * through the registry, so they are validated and the video reference resolved
    */
-  private async handleRemoveVideo(body: any, res: http.ServerResponse): Promise<void> {
-    const { playlistItemId } = body;
-
-    if (!playlistItemId) {
-      res.writeHead(400, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'playlistItemId required' }));
-      return;
-    }
+  private async handleTranscriptExport(
+    videoId: string,
+    format: TranscriptFormat,
+    query: URLSearchParams,
+    res: http.ServerResponse
+  ): Promise<void> {
+    // view/fields would project away the rendered content
+    const { view: _view, fields: _fields, ...args } = Object.fromEntries(query.entries());
 
     try {
-      const removed = await this.playlistService.removeVideoFromPlaylist(playlistItemId);
+      const result = await this.registry.call('transcripts_getTranscript', { ...args, videoId, format }) as { content: string; contentType: string };
 
-      res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({
-        success: true,
-        removed,
-        playlistItemId
-      }));
+      res.writeHead(200, { 'Content-Type': result.contentType });
+      res.end(result.content);
 
     } catch (error) {
-      console.error('Video removal error:', error);
-      res.writeHead(400, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({
-        error: error instanceof Error ? error.message : 'Unknown error',
-        playlistItemId,
-        note: 'Video removal requires OAuth 2.0 authentication'
-      }));
+      console.error('Transcript export error:', error);
+      this.sendError(res, error, { videoId });
     }
   }
 
   /**
-   * Handle adding video to playlist
-   * Reuses core PlaylistService for consistency with MCP
+   * Handle a registry tool exposed as a REST route
+   * Arguments come from the query string, JSON body and path parameters (in increasing precedence)
+   * and are validated/coerced against the tool schema by the registry
+   * An Idempotency-Key header fills idempotencyKey for tools that accept one
    */
-  private async handleAddVideo(body: any, res: http.ServerResponse): Promise<void> {
-    const { playlistId, videoId } = body;
-
-    if (!playlistId || !videoId) {
-      res.writeHead(400, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'playlistId and videoId required' }));
-      return;
-    }
+  private async handleToolRoute(
+    { tool, params }: RouteMatch,
+    query: URLSearchParams,
+    body: any,
+    headers: http.IncomingHttpHeaders,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const idempotencyKey = headers['idempotency-key'];
+    const args = {
+      ...(typeof idempotencyKey === 'string' && 'idempotencyKey' in tool.inputSchema.properties && { idempotencyKey }),
+      ...Object.fromEntries(query.entries()),
+      ...body,
+      ...params
+    };
 
     try {
-      const playlistItemId = await this.playlistService.addVideoToPlaylist(playlistId, videoId);
+      const result = await this.registry.call(tool.name, args);
 
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({
-        success: true,
-        playlistItemId,
-        playlistId,
-        videoId
-      }));
+      res.end(JSON.stringify(result));
 
     } catch (error) {
-      console.error('Video addition error:', error);
-      res.writeHead(400, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({
-        error: error instanceof Error ? error.message : 'Unknown error',
-        playlistId,
-        videoId,
-        note: 'Video addition requires OAuth 2.0 authentication'
-      }));
-    }
-  }
-
-  /**
-   * Handle OAuth status check
-   * Returns authentication status and auth URL if needed
-   */
-  private async handleOAuthStatus(res: http.ServerResponse): Promise<void> {
-    try {
-      const oauthStatus = await this.playlistService.getOAuthStatus();
-
-      res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify(oauthStatus));
-
-    } catch (error) {
-      console.error('OAuth status error:', error);
-      res.writeHead(500, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({
-        error: error instanceof Error ? error.message : 'Unknown error'
-      }));
+      console.error(`${tool.name} error:`, error);
+      this.sendError(res, error, { tool: tool.name });
     }
   }
 
@@ -285,8 +277,7 @@ export class HttpApiServer {
     const { code } = body;
 
     if (!code) {
-      res.writeHead(400, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'Authorization code required' }));
+      this.sendError(res, new InvalidArgumentError('Authorization code required', { field: 'code' }));
       return;
     }
 
@@ -302,11 +293,7 @@ export class HttpApiServer {
 
     } catch (error) {
       console.error('OAuth exchange error:', error);
-      res.writeHead(400, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({
-        error: error instanceof Error ? error.message : 'Unknown error',
-        code
-      }));
+      this.sendError(res, new InvalidArgumentError(`OAuth code exchange failed: ${error instanceof Error ? error.message : error}`, { field: 'code' }));
     }
   }
 }
\ No newline at end of file
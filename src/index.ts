@@ -1,11 +1,12 @@
 import { startMcpServer } from './server.js';
+import { loadApiKeys } from './services/api-keys.js';
 import { parseArgs } from './config/TransportConfig.js';
 
 async function main() {
   try {
     // Check for required environment variables
-    if (!process.env.YOUTUBE_API_KEY) {
-      console.error('Error: YOUTUBE_API_KEY environment variable is required.');
+    if (loadApiKeys().length === 0) {
+      console.error('Error: YOUTUBE_API_KEY (or YOUTUBE_API_KEYS / YOUTUBE_API_KEYS_FILE) environment variable is required.');
       console.error('Please set it before running this server.');
       process.exit(1);
     }
@@ -7,26 +7,19 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { parseArgs } from './config/TransportConfig.js';
 import http from 'http';
-import { VideoService } from './services/video.js';
-import { TranscriptService } from './services/transcript.js';
-import { PlaylistService } from './services/playlist.js';
-import { ChannelService } from './services/channel.js';
 import { HttpApiServer } from './http-api.js';
-import {
-    VideoParams,
-    SearchParams,
-    TranscriptParams,
-    ChannelParams,
-    ChannelVideosParams,
-    PlaylistParams,
-    PlaylistItemsParams,
-} from './types.js';
+import { createToolRegistry } from './tools/index.js';
+import { toServiceError } from './errors.js';
+import { getYouTubeClientProvider } from './services/youtube-client.js';
+import { handleCors } from './transports/cors.js';
 
 export async function startMcpServer(config?: any) {
     // Parse config from args if not provided
     if (!config) {
         config = parseArgs(process.argv.slice(2));
     }
+    getYouTubeClientProvider().configure({ retry: config.retry, rateLimit: config.rateLimit });
+
     const server = new Server(
         {
             name: 'rkashyapa-youtube-mcp-enhanced',
@@ -39,164 +32,11 @@ export async function startMcpServer(config?: any) {
         }
     );
 
-    const videoService = new VideoService();
-    const transcriptService = new TranscriptService();
-    const playlistService = new PlaylistService();
-    const channelService = new ChannelService();
+    const registry = createToolRegistry();
 
     server.setRequestHandler(ListToolsRequestSchema, async () => {
         return {
-            tools: [
-                {
-                    name: 'videos_getVideo',
-                    description: 'Get detailed information about a YouTube video',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            videoId: {
-                                type: 'string',
-                                description: 'The YouTube video ID',
-                            },
-                            parts: {
-                                type: 'array',
-                                description: 'Parts of the video to retrieve',
-                                items: {
-                                    type: 'string',
-                                },
-                            },
-                        },
-                        required: ['videoId'],
-                    },
-                },
-                {
-                    name: 'videos_searchVideos',
-                    description: 'Search for videos on YouTube',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            query: {
-                                type: 'string',
-                                description: 'Search query',
-                            },
-                            maxResults: {
-                                type: 'number',
-                                description: 'Maximum number of results to return',
-                            },
-                        },
-                        required: ['query'],
-                    },
-                },
-                {
-                    name: 'transcripts_getTranscript',
-                    description: 'Get YouTube video transcript with segmentation to avoid 25K token limits. IMPORTANT: Use startIndex+maxSegments for reliable access to any part of long videos. For 7+ hour videos, use startIndex: 0-1000 (hours 1-2), 1000-2000 (hours 2-3), 2000-3000 (hours 3-4), 3000-4000 (hours 4-6), 4000+ (final content).',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            videoId: {
-                                type: 'string',
-                                description: 'The YouTube video ID (required)',
-                            },
-                            language: {
-                                type: 'string',
-                                description: 'Language code (default: en)',
-                            },
-                            startTime: {
-                                type: 'number',
-                                description: '⚠️ COMPATIBILITY ISSUE: Use startIndex instead for reliable results',
-                            },
-                            endTime: {
-                                type: 'number',
-                                description: '⚠️ COMPATIBILITY ISSUE: Use maxSegments instead for reliable results',
-                            },
-                            lastMinutes: {
-                                type: 'number',
-                                description: '✅ RELIABLE: Get last N minutes (e.g., 30 for last 30 minutes)',
-                            },
-                            firstMinutes: {
-                                type: 'number',
-                                description: '✅ RELIABLE: Get first N minutes (e.g., 120 for first 2 hours)',
-                            },
-                            maxSegments: {
-                                type: 'number',
-                                description: '✅ RECOMMENDED: Max segments to return (use 300-500 to stay under token limits)',
-                            },
-                            startIndex: {
-                                type: 'number',
-                                description: '✅ RELIABLE: Start from segment index (0=beginning, 3000=~hour 4-5). Use this to access middle content of long videos.',
-                            },
-                            endIndex: {
-                                type: 'number',
-                                description: '✅ RELIABLE: End at segment index (0-based). Optional when using maxSegments.',
-                            },
-                        },
-                        required: ['videoId'],
-                    },
-                },
-                {
-                    name: 'channels_getChannel',
-                    description: 'Get information about a YouTube channel',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            channelId: {
-                                type: 'string',
-                                description: 'The YouTube channel ID',
-                            },
-                        },
-                        required: ['channelId'],
-                    },
-                },
-                {
-                    name: 'channels_listVideos',
-                    description: 'Get videos from a specific channel',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            channelId: {
-                                type: 'string',
-                                description: 'The YouTube channel ID',
-                            },
-                            maxResults: {
-                                type: 'number',
-                                description: 'Maximum number of results to return',
-                            },
-                        },
-                        required: ['channelId'],
-                    },
-                },
-                {
-                    name: 'playlists_getPlaylist',
-                    description: 'Get information about a YouTube playlist',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            playlistId: {
-                                type: 'string',
-                                description: 'The YouTube playlist ID',
-                            },
-                        },
-                        required: ['playlistId'],
-                    },
-                },
-                {
-                    name: 'playlists_getPlaylistItems',
-                    description: 'Get videos in a YouTube playlist',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            playlistId: {
-                                type: 'string',
-                                description: 'The YouTube playlist ID',
-                            },
-                            maxResults: {
-                                type: 'number',
-                                description: 'Maximum number of results to return',
-                            },
-                        },
-                        required: ['playlistId'],
-                    },
-                },
-            ],
+            tools: registry.list(),
         };
     });
 
@@ -204,87 +44,21 @@ export async function startMcpServer(config?: any) {
         const { name, arguments: args } = request.params;
 
         try {
-            switch (name) {
-                case 'videos_getVideo': {
-                    const result = await videoService.getVideo(args as unknown as VideoParams);
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: JSON.stringify(result, null, 2)
-                        }]
-                    };
-                }
-                
-                case 'videos_searchVideos': {
-                    const result = await videoService.searchVideos(args as unknown as SearchParams);
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: JSON.stringify(result, null, 2)
-                        }]
-                    };
-                }
-                
-                case 'transcripts_getTranscript': {
-                    // Debug logging for parameter debugging
-                    console.log('[DEBUG] Received transcript args:', JSON.stringify(args, null, 2));
-                    const result = await transcriptService.getTranscript(args as unknown as TranscriptParams);
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: JSON.stringify(result, null, 2)
-                        }]
-                    };
-                }
-                
-                case 'channels_getChannel': {
-                    const result = await channelService.getChannel(args as unknown as ChannelParams);
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: JSON.stringify(result, null, 2)
-                        }]
-                    };
-                }
-                
-                case 'channels_listVideos': {
-                    const result = await channelService.listVideos(args as unknown as ChannelVideosParams);
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: JSON.stringify(result, null, 2)
-                        }]
-                    };
-                }
-                
-                case 'playlists_getPlaylist': {
-                    const result = await playlistService.getPlaylist(args as unknown as PlaylistParams);
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: JSON.stringify(result, null, 2)
-                        }]
-                    };
-                }
-                
-                case 'playlists_getPlaylistItems': {
-                    const result = await playlistService.getPlaylistItems(args as unknown as PlaylistItemsParams);
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: JSON.stringify(result, null, 2)
-                        }]
-                    };
-                }
-                
-                default:
-                    throw new Error(`Unknown tool: ${name}`);
-            }
+            // MCP clients get the compact view unless they ask for full
+            const result = await registry.call(name, args, 'compact');
+            // Compact JSON: transcript maxTokens budgets are estimated on this serialization
+            return {
+                content: [{
+                    type: 'text',
+                    text: JSON.stringify(result)
+                }]
+            };
         } catch (error) {
+            // { error: { code, message, retryable, ...details } }
             return {
                 content: [{
                     type: 'text',
-                    text: `Error: ${error instanceof Error ? error.message : String(error)}`
+                    text: JSON.stringify({ error: toServiceError(error).toJSON() })
                 }],
                 isError: true
             };
@@ -302,20 +76,12 @@ export async function startMcpServer(config?: any) {
         await server.connect(transport);
         
         // Create HTTP API server instance for n8n endpoints
-        const httpApiServer = new HttpApiServer();
+        const httpApiServer = new HttpApiServer(registry);
 
         // Create HTTP server
         const httpServer = http.createServer(async (req, res) => {
-            // Handle CORS
-            res.setHeader('Access-Control-Allow-Origin', '*');
-            res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-            res.setHeader('Access-Control-Allow-Headers', 'Content-Type, mcp-session-id');
-
-            if (req.method === 'OPTIONS') {
-                res.writeHead(200);
-                res.end();
-                return;
-            }
+            // Handle CORS: configured browser origins, or any when unset
+            if (!handleCors(req, res, 'Content-Type, mcp-session-id, Idempotency-Key')) return;
 
             // Handle health check
             if (req.method === 'GET' && req.url === '/health') {
@@ -324,7 +90,8 @@ export async function startMcpServer(config?: any) {
                     status: 'healthy',
                     server: 'youtube-mcp',
                     version: '1.0.0',
-                    timestamp: new Date().toISOString()
+                    timestamp: new Date().toISOString(),
+                    apiKeys: getYouTubeClientProvider().getKeyHealth()
                 }));
                 return;
             }
@@ -338,8 +105,10 @@ export async function startMcpServer(config?: any) {
                 } catch (error) {
                     console.error(`API error: ${error instanceof Error ? error.message : error}`);
                     if (!res.headersSent) {
-                        res.writeHead(500, { 'Content-Type': 'application/json' });
-                        res.end(JSON.stringify({ error: 'Internal server error' }));
+                        const serviceError = toServiceError(error);
+                        const { message, ...rest } = serviceError.toJSON();
+                        res.writeHead(serviceError.httpStatus, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify({ error: message, ...rest }));
                     }
                     return;
                 }
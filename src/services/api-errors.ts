@@ -0,0 +1,62 @@
+/**
+ * Helpers for inspecting errors thrown by googleapis/gaxios
+ */
+
+// Error reasons YouTube returns for transient failures
+const RETRYABLE_REASONS = new Set([
+  'rateLimitExceeded',
+  'userRateLimitExceeded',
+  'backendError',
+  'internalError',
+]);
+
+// Node network error codes worth retrying
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'ECONNABORTED',
+]);
+
+/**
+ * HTTP status of a failed API call, if it got a response
+ */
+export function getErrorStatus(error: any): number | undefined {
+  const status = error?.response?.status ?? error?.status ?? (typeof error?.code === 'number' ? error.code : undefined);
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * First YouTube error reason (e.g. "quotaExceeded", "videoNotFound")
+ */
+export function getErrorReason(error: any): string | undefined {
+  return error?.errors?.[0]?.reason
+    ?? error?.response?.data?.error?.errors?.[0]?.reason
+    ?? undefined;
+}
+
+/**
+ * Whether a failed call is worth retrying: 5xx, 429, transient 403 reasons,
+ * timeouts and connection errors
+ */
+export function isRetryableError(error: any): boolean {
+  const status = getErrorStatus(error);
+  const reason = getErrorReason(error);
+
+  if (reason && RETRYABLE_REASONS.has(reason)) return true;
+  if (status !== undefined) return status >= 500 || status === 429;
+
+  const code = typeof error?.code === 'string' ? error.code : error?.error?.code;
+  const type = error?.type ?? error?.error?.type;
+  return error?.name === 'AbortError' || type === 'request-timeout' || RETRYABLE_NETWORK_CODES.has(code);
+}
+
+/**
+ * Whether YouTube refused the call because the key's daily quota is used up
+ */
+export function isQuotaExceededError(error: any): boolean {
+  const reason = getErrorReason(error);
+  return getErrorStatus(error) === 403 && (reason === 'quotaExceeded' || reason === 'dailyLimitExceeded');
+}
@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import { nextQuotaReset } from './quota.js';
+
+/**
+ * Read API keys from the environment
+ *
+ * Sources, in order: YOUTUBE_API_KEYS (comma-separated), YOUTUBE_API_KEYS_FILE
+ * (one key per line or a JSON array), then YOUTUBE_API_KEY. Duplicates are dropped.
+ */
+export function loadApiKeys(): string[] {
+  const keys: string[] = [];
+
+  if (process.env.YOUTUBE_API_KEYS) {
+    keys.push(...process.env.YOUTUBE_API_KEYS.split(','));
+  }
+
+  if (process.env.YOUTUBE_API_KEYS_FILE) {
+    const content = fs.readFileSync(process.env.YOUTUBE_API_KEYS_FILE, 'utf-8').trim();
+    keys.push(...(content.startsWith('[') ? JSON.parse(content) : content.split(/\r?\n/)));
+  }
+
+  if (keys.length === 0 && process.env.YOUTUBE_API_KEY) {
+    keys.push(process.env.YOUTUBE_API_KEY);
+  }
+
+  return [...new Set(keys.map(key => String(key).trim()).filter(key => key && !key.startsWith('#')))];
+}
+
+/**
+ * Show only enough of a key to tell keys apart
+ */
+export function maskApiKey(key: string): string {
+  return key.length <= 8 ? '****' : `${key.slice(0, 4)}…${key.slice(-4)}`;
+}
+
+export interface ApiKeyHealth {
+  key: string;  // Masked
+  status: 'active' | 'standby' | 'exhausted';
+  requests: number;
+  quotaExceededCount: number;
+  parkedUntil?: string;
+}
+
+interface ApiKeyState {
+  key: string;
+  requests: number;
+  quotaExceededCount: number;
+  parkedUntil: number;  // Epoch ms; 0 when usable
+}
+
+/**
+ * Rotating set of API keys
+ *
+ * Requests stick to the current key until YouTube reports its quota as
+ * exceeded; the key is then parked until the next Pacific-time reset and the
+ * pool moves on to the next usable key.
+ */
+export class ApiKeyPool {
+  private keys: ApiKeyState[];
+  private index = 0;
+
+  constructor(keys: string[] = loadApiKeys()) {
+    this.keys = keys.map(key => ({ key, requests: 0, quotaExceededCount: 0, parkedUntil: 0 }));
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Key to use for the next request, or null when every key is parked
+   */
+  acquire(): string | null {
+    const now = Date.now();
+    for (let offset = 0; offset < this.keys.length; offset++) {
+      const state = this.keys[(this.index + offset) % this.keys.length];
+      if (state.parkedUntil <= now) {
+        state.parkedUntil = 0;
+        this.index = (this.index + offset) % this.keys.length;
+        state.requests += 1;
+        return state.key;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Park a key whose daily quota is used up and rotate to the next one
+   */
+  markExhausted(key: string): void {
+    const state = this.keys.find(entry => entry.key === key);
+    if (!state) return;
+
+    state.quotaExceededCount += 1;
+    state.parkedUntil = nextQuotaReset().getTime();
+    if (this.keys[this.index] === state) {
+      this.index = (this.index + 1) % this.keys.length;
+    }
+  }
+
+  /**
+   * Earliest time a parked key becomes usable again
+   */
+  nextAvailableAt(): Date | null {
+    const parked = this.keys.map(state => state.parkedUntil).filter(Boolean);
+    return parked.length ? new Date(Math.min(...parked)) : null;
+  }
+
+  getHealth(): ApiKeyHealth[] {
+    const now = Date.now();
+    return this.keys.map((state, i) => {
+      const parked = state.parkedUntil > now;
+      return {
+        key: maskApiKey(state.key),
+        status: parked ? 'exhausted' : i === this.index ? 'active' : 'standby',
+        requests: state.requests,
+        quotaExceededCount: state.quotaExceededCount,
+        ...(parked && { parkedUntil: new Date(state.parkedUntil).toISOString() })
+      };
+    });
+  }
+}
@@ -1,35 +1,41 @@
-import { google } from 'googleapis';
-import { ChannelParams, ChannelVideosParams } from '../types.js';
+import { ChannelParams, ChannelVideosParams, ChannelUploadsParams, ChannelUploadsOrder, PagedResult } from '../types.js';
+import { fetchPages, MAX_PAGE_SIZE } from './pagination.js';
+import { getYouTubeClientProvider, YouTubeClientProvider } from './youtube-client.js';
+import { VideoService } from './video.js';
+import { parseTimestamp } from './dates.js';
+import { toEnrichment } from './enrich.js';
+import { InvalidArgumentError, NotFoundError, toServiceError } from '../errors.js';
 
 /**
- * Service for interacting with YouTube channels
+ * Publish time of an uploads playlist item or hydrated video
  */
-export class ChannelService {
-  private youtube;
-  private initialized = false;
+function publishedAt(item: any): string {
+  return item.contentDetails?.videoPublishedAt || item.snippet?.publishedAt || '';
+}
 
-  constructor() {
-    // Don't initialize in constructor
+function sortUploads(items: any[], order: ChannelUploadsOrder): any[] {
+  switch (order) {
+    case 'oldest':
+      return [...items].sort((a, b) => Date.parse(publishedAt(a)) - Date.parse(publishedAt(b)));
+    case 'viewCount':
+      return [...items].sort((a, b) => Number(b.statistics?.viewCount || 0) - Number(a.statistics?.viewCount || 0));
+    case 'title':
+      return [...items].sort((a, b) => (a.snippet?.title || '').localeCompare(b.snippet?.title || ''));
+    default:
+      return items;
   }
+}
 
-  /**
-   * Initialize the YouTube client only when needed
-   */
-  private initialize() {
-    if (this.initialized) return;
-    
-    const apiKey = process.env.YOUTUBE_API_KEY;
-    if (!apiKey) {
-      throw new Error('YOUTUBE_API_KEY environment variable is not set.');
-    }
+/**
+ * Service for interacting with YouTube channels
+ */
+export class ChannelService {
+  private uploadsPlaylists = new Map<string, string>();
 
-    this.youtube = google.youtube({
-      version: 'v3',
-      auth: apiKey
-    });
-    
-    this.initialized = true;
-  }
+  constructor(
+    private videoService: VideoService = new VideoService(),
+    private client: YouTubeClientProvider = getYouTubeClientProvider()
+  ) {}
 
   /**
    * Get channel details
@@ -38,16 +44,19 @@ export class ChannelService {
     channelId 
   }: ChannelParams): Promise<any> {
     try {
-      this.initialize();
-      
-      const response = await this.youtube.channels.list({
+      const response = await this.client.call('channels.list', (youtube, options) => youtube.channels.list({
         part: ['snippet', 'statistics', 'contentDetails'],
         id: [channelId]
-      });
+      }, options));
 
-      return response.data.items?.[0] || null;
+      const channel = response.data.items?.[0];
+      if (!channel) {
+        throw new NotFoundError(`Channel not found: ${channelId}`, { channelId });
+      }
+
+      return channel;
     } catch (error) {
-      throw new Error(`Failed to get channel: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to get channel');
     }
   }
 
@@ -56,47 +65,145 @@ export class ChannelService {
    */
   async getPlaylists({ 
     channelId, 
-    maxResults = 50 
-  }: ChannelVideosParams): Promise<any[]> {
+    maxResults = 50,
+    pageToken
+  }: ChannelVideosParams): Promise<PagedResult<any>> {
     try {
-      this.initialize();
-      
-      const response = await this.youtube.playlists.list({
-        part: ['snippet', 'contentDetails'],
-        channelId,
-        maxResults
-      });
-
-      return response.data.items || [];
+      return await fetchPages(async (token, pageSize) => {
+        const response = await this.client.call('playlists.list', (youtube, options) => youtube.playlists.list({
+          part: ['snippet', 'contentDetails'],
+          channelId,
+          maxResults: pageSize,
+          pageToken: token
+        }, options));
+        return response.data;
+      }, maxResults, pageToken);
     } catch (error) {
-      throw new Error(`Failed to get channel playlists: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to get channel playlists');
+    }
+  }
+
+  /**
+   * Uploads playlist of a channel (contentDetails.relatedPlaylists.uploads)
+   */
+  private async getUploadsPlaylistId(channelId: string): Promise<string> {
+    const cached = this.uploadsPlaylists.get(channelId);
+    if (cached) return cached;
+
+    const response = await this.client.call('channels.list', (youtube, options) => youtube.channels.list({
+      part: ['contentDetails'],
+      id: [channelId]
+    }, options));
+
+    const uploadsPlaylistId = response.data.items?.[0]?.contentDetails?.relatedPlaylists?.uploads;
+    if (!uploadsPlaylistId) {
+      throw new NotFoundError(`Channel not found: ${channelId}`, { channelId });
     }
+
+    this.uploadsPlaylists.set(channelId, uploadsPlaylistId);
+    return uploadsPlaylistId;
   }
 
   /**
    * Get channel videos
+   * Pages through the channel's uploads playlist (1 unit per page) rather than
+   * search.list (100 units). The playlist is newest-first, so paging stops as
+   * soon as it passes publishedAfter. Any other order reads every upload in
+   * range before sorting, so it returns the true first maxResults and cannot
+   * be continued with a pageToken.
    */
   async listVideos({ 
     channelId, 
-    maxResults = 50 
-  }: ChannelVideosParams): Promise<any[]> {
+    maxResults = 50,
+    pageToken,
+    publishedAfter,
+    publishedBefore,
+    order = 'newest',
+    hydrate = false,
+    enrich = false
+  }: ChannelUploadsParams): Promise<PagedResult<any> & { uploadsPlaylistId: string }> {
     try {
-      this.initialize();
-      
-      const response = await this.youtube.search.list({
-        part: ['snippet'],
-        channelId,
-        maxResults,
-        order: 'date',
-        type: ['video']
-      });
-
-      return response.data.items || [];
+      const sorted = order !== 'newest';
+      if (sorted && pageToken) {
+        throw new InvalidArgumentError(`pageToken cannot be used with order "${order}"; it reads every upload in range at once`, { field: 'pageToken' });
+      }
+
+      const after = parseTimestamp(publishedAfter, 'publishedAfter');
+      const before = parseTimestamp(publishedBefore, 'publishedBefore');
+      const filtered = after !== undefined || before !== undefined;
+      const uploadsPlaylistId = await this.getUploadsPlaylistId(channelId);
+      const limit = sorted ? Infinity : maxResults;
+
+      let items: any[] = [];
+      let nextPageToken: string | undefined = pageToken;
+      let totalResults: number | null = null;
+      let passedStart = false;
+
+      do {
+        const pageSize = Math.min(MAX_PAGE_SIZE, limit - items.length);
+        const response = await this.client.call('playlistItems.list', (youtube, options) => youtube.playlistItems.list({
+          part: ['snippet', 'contentDetails'],
+          playlistId: uploadsPlaylistId,
+          maxResults: pageSize,
+          pageToken: nextPageToken
+        }, options));
+
+        for (const item of response.data.items || []) {
+          const published = Date.parse(publishedAt(item));
+          if (after !== undefined && published < after) {
+            passedStart = true;
+            continue;
+          }
+          if (before !== undefined && published >= before) continue;
+          items.push(item);
+        }
+
+        nextPageToken = passedStart ? undefined : response.data.nextPageToken || undefined;
+        totalResults = filtered ? null : response.data.pageInfo?.totalResults ?? totalResults;
+      } while (nextPageToken && items.length < limit);
+
+      // Sorting by views needs statistics, so it implies hydration
+      const hydrated = hydrate || order === 'viewCount';
+      if (order === 'viewCount') {
+        items = await this.hydrateVideos(items);
+      }
+      items = sortUploads(items, order).slice(0, maxResults);
+      if (hydrate && order !== 'viewCount') {
+        items = await this.hydrateVideos(items);
+      }
+      if (enrich) {
+        // Hydrated videos already carry contentDetails and statistics
+        items = hydrated
+          ? items.map(video => ({ ...video, ...toEnrichment(video) }))
+          : await this.videoService.enrichResults(items);
+      }
+
+      return {
+        items,
+        nextPageToken: nextPageToken || null,
+        totalResults,
+        uploadsPlaylistId
+      };
     } catch (error) {
-      throw new Error(`Failed to list channel videos: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to list channel videos');
     }
   }
 
+  /**
+   * Replace playlist items with video resources (duration, statistics)
+   * via batched videos.list; videos that are no longer available are dropped
+   */
+  private async hydrateVideos(items: any[]): Promise<any[]> {
+    const videoIds = items.map(item => item.contentDetails?.videoId).filter(Boolean);
+    if (videoIds.length === 0) return [];
+
+    const { videos } = await this.videoService.getVideos({ videoIds });
+    return videoIds
+      .map(id => videos[id])
+      .filter(entry => entry?.found)
+      .map(entry => (entry as { found: true; video: any }).video);
+  }
+
   /**
    * Get channel statistics
    */
@@ -104,16 +211,19 @@ export class ChannelService {
     channelId 
   }: ChannelParams): Promise<any> {
     try {
-      this.initialize();
-      
-      const response = await this.youtube.channels.list({
+      const response = await this.client.call('channels.list', (youtube, options) => youtube.channels.list({
         part: ['statistics'],
         id: [channelId]
-      });
+      }, options));
+
+      const channel = response.data.items?.[0];
+      if (!channel) {
+        throw new NotFoundError(`Channel not found: ${channelId}`, { channelId });
+      }
 
-      return response.data.items?.[0]?.statistics || null;
+      return channel.statistics || null;
     } catch (error) {
-      throw new Error(`Failed to get channel statistics: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to get channel statistics');
     }
   }
 }
\ No newline at end of file
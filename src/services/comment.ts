@@ -0,0 +1,379 @@
+import {
+  CommentThreadsParams,
+  CommentThreadParams,
+  SearchCommentsParams,
+  PostCommentParams,
+  ReplyCommentParams,
+  ModerateCommentsParams,
+  CommentIdsParams,
+  CommentDeleteReport,
+  CommentDeleteResult,
+  DryRunResult,
+  PagedResult
+} from '../types.js';
+import { fetchPages } from './pagination.js';
+import { getYouTubeClientProvider, YouTubeClientProvider } from './youtube-client.js';
+import { chunk, mapWithConcurrency } from './concurrency.js';
+import { getErrorReason } from './api-errors.js';
+import { QUOTA_COSTS, QuotaEndpoint } from './quota.js';
+import { createSharedOAuthClient, SharedGoogleOAuthClient } from '../shared-oauth/index.js';
+import { AuthRequiredError, InvalidArgumentError, NotFoundError, ServiceError, toServiceError } from '../errors.js';
+
+// Errors that make every remaining delete fail the same way
+const HALTING_ERRORS = new Set(['QUOTA_EXCEEDED', 'AUTH_REQUIRED']);
+
+// commentThreads.list and comments.list allow 100 results per page
+const COMMENT_PAGE_SIZE = 100;
+
+// Parallel comments.list calls when expanding replies
+const REPLY_CONCURRENCY = 4;
+
+// comments.list accepts up to 50 IDs per call
+const COMMENT_ID_BATCH = 50;
+
+// YouTube rejects comments longer than this
+const MAX_COMMENT_LENGTH = 10000;
+
+/**
+ * Service for reading and writing YouTube comments
+ * Writes use OAuth (youtube.force-ssl scope); reads use the API key pool
+ */
+export class CommentService {
+  constructor(
+    private client: YouTubeClientProvider = getYouTubeClientProvider(),
+    private oauthClient: SharedGoogleOAuthClient = createSharedOAuthClient()
+  ) {}
+
+  /**
+   * List comment threads on a video, or on every video of a channel
+   * Videos with comments turned off return an empty list with commentsDisabled: true
+   */
+  async listCommentThreads({
+    videoId,
+    channelId,
+    order = 'time',
+    maxResults = 20,
+    pageToken,
+    includeReplies = true,
+    allReplies = false
+  }: CommentThreadsParams): Promise<PagedResult<any> & { commentsDisabled?: boolean }> {
+    try {
+      return await this.fetchThreads({ videoId, channelId, order, maxResults, pageToken }, includeReplies || allReplies, allReplies);
+    } catch (error) {
+      return this.disabledOrThrow(error, 'Failed to list comments');
+    }
+  }
+
+  /**
+   * Get a single comment thread by ID
+   */
+  async getCommentThread({
+    threadId,
+    allReplies = false
+  }: CommentThreadParams): Promise<any> {
+    try {
+      const response = await this.client.call('commentThreads.list', (youtube, options) => youtube.commentThreads.list({
+        part: ['snippet', 'replies'],
+        id: [threadId],
+        textFormat: 'plainText'
+      }, options));
+
+      const thread = response.data.items?.[0];
+      if (!thread) {
+        throw new NotFoundError(`Comment thread not found: ${threadId}`, { threadId });
+      }
+
+      return allReplies ? await this.expandReplies(thread) : thread;
+    } catch (error) {
+      throw toServiceError(error, 'Failed to get comment thread');
+    }
+  }
+
+  /**
+   * Search comment threads by text (matched by YouTube against top-level
+   * comments and their replies)
+   */
+  async searchComments({
+    query,
+    videoId,
+    channelId,
+    order = 'relevance',
+    maxResults = 20,
+    pageToken
+  }: SearchCommentsParams): Promise<PagedResult<any> & { commentsDisabled?: boolean }> {
+    try {
+      return await this.fetchThreads({ videoId, channelId, order, maxResults, pageToken, searchTerms: query }, true, false);
+    } catch (error) {
+      return this.disabledOrThrow(error, 'Failed to search comments');
+    }
+  }
+
+  /**
+   * Post a top-level comment on a video
+   */
+  async postComment({ videoId, text, dryRun = false }: PostCommentParams): Promise<any> {
+    try {
+      const requestBody = {
+        snippet: {
+          videoId,
+          topLevelComment: { snippet: { textOriginal: this.checkText(text) } }
+        }
+      };
+      if (dryRun) {
+        return await this.dryRun('commentThreads.insert', { part: ['snippet'], requestBody });
+      }
+
+      const youtubeWithAuth = await this.initializeWithOAuth();
+      const response = await this.client.call('commentThreads.insert', (youtube, options) => youtube.commentThreads.insert({
+        part: ['snippet'],
+        requestBody
+      }, options), youtubeWithAuth);
+
+      return response.data;
+    } catch (error) {
+      throw toServiceError(error, 'Failed to post comment');
+    }
+  }
+
+  /**
+   * Reply to a comment thread
+   */
+  async replyToComment({ parentId, text, dryRun = false }: ReplyCommentParams): Promise<any> {
+    try {
+      const requestBody = { snippet: { parentId, textOriginal: this.checkText(text) } };
+      if (dryRun) {
+        return await this.dryRun('comments.insert', { part: ['snippet'], requestBody }, [parentId]);
+      }
+
+      const youtubeWithAuth = await this.initializeWithOAuth();
+      const response = await this.client.call('comments.insert', (youtube, options) => youtube.comments.insert({
+        part: ['snippet'],
+        requestBody
+      }, options), youtubeWithAuth);
+
+      return response.data;
+    } catch (error) {
+      throw toServiceError(error, 'Failed to reply to comment');
+    }
+  }
+
+  /**
+   * Publish, hold for review or reject comments on the authenticated channel's videos
+   * banAuthor (rejected only) also hides the author's future comments
+   */
+  async setModerationStatus({
+    commentIds,
+    moderationStatus,
+    banAuthor = false,
+    dryRun = false
+  }: ModerateCommentsParams): Promise<any> {
+    try {
+      if (banAuthor && moderationStatus !== 'rejected') {
+        throw new InvalidArgumentError('banAuthor can only be used with moderationStatus "rejected"', { field: 'banAuthor' });
+      }
+
+      const params = { id: this.checkIds(commentIds), moderationStatus, ...(banAuthor && { banAuthor }) };
+      if (dryRun) {
+        return await this.dryRun('comments.setModerationStatus', params, params.id);
+      }
+
+      const youtubeWithAuth = await this.initializeWithOAuth();
+      await this.client.call('comments.setModerationStatus', (youtube, options) => youtube.comments.setModerationStatus(params, options), youtubeWithAuth);
+
+      return { success: true, commentIds: params.id, moderationStatus, banAuthor };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to set comment moderation status');
+    }
+  }
+
+  /**
+   * Report comments as spam
+   */
+  async markAsSpam({ commentIds, dryRun = false }: CommentIdsParams): Promise<any> {
+    try {
+      const params = { id: this.checkIds(commentIds) };
+      if (dryRun) {
+        return await this.dryRun('comments.markAsSpam', params, params.id);
+      }
+
+      const youtubeWithAuth = await this.initializeWithOAuth();
+      await this.client.call('comments.markAsSpam', (youtube, options) => youtube.comments.markAsSpam(params, options), youtubeWithAuth);
+
+      return { success: true, commentIds: params.id };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to mark comments as spam');
+    }
+  }
+
+  /**
+   * Delete comments written by the authenticated account
+   * comments.delete takes one ID per call; a failed delete does not stop the
+   * others, but once the quota runs out or OAuth is rejected the rest are
+   * reported as failed without being attempted
+   */
+  async deleteComments({ commentIds, dryRun = false }: CommentIdsParams): Promise<CommentDeleteReport | DryRunResult> {
+    try {
+      const ids = this.checkIds(commentIds);
+      if (dryRun) {
+        return await this.dryRun('comments.delete', { id: ids }, ids, ids.length);
+      }
+
+      const youtubeWithAuth = await this.initializeWithOAuth();
+      const items: CommentDeleteResult[] = [];
+      let haltedBy: ServiceError | null = null;
+
+      for (const commentId of ids) {
+        if (haltedBy) {
+          items.push({ commentId, status: 'failed', error: { ...haltedBy.toJSON(), notAttempted: true } });
+          continue;
+        }
+
+        try {
+          await this.client.call('comments.delete', (youtube, options) => youtube.comments.delete({ id: commentId }, options), youtubeWithAuth);
+          items.push({ commentId, status: 'deleted' });
+        } catch (error) {
+          const serviceError = toServiceError(error);
+          items.push({ commentId, status: 'failed', error: serviceError.toJSON() });
+          if (HALTING_ERRORS.has(serviceError.code)) haltedBy = serviceError;
+        }
+      }
+
+      const summary = { deleted: 0, failed: 0 };
+      for (const item of items) summary[item.status]++;
+      return { success: summary.failed === 0, summary, items };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to delete comments');
+    }
+  }
+
+  /**
+   * Initialize YouTube client with OAuth for write operations
+   * SharedGoogleOAuthClient only reports valid tokens when every YouTube scope,
+   * including youtube.force-ssl, was granted
+   */
+  private async initializeWithOAuth() {
+    const hasValidTokens = await this.oauthClient.hasValidTokens('youtube');
+
+    if (!hasValidTokens) {
+      throw new AuthRequiredError('YouTube OAuth authentication with the youtube.force-ssl scope is required for comment writes. Call oauth_getStatus (GET /api/oauth/status) for the authorization URL.');
+    }
+
+    const authenticatedClient = await this.oauthClient.getAuthenticatedClient('youtube');
+
+    return this.client.createClient(authenticatedClient);
+  }
+
+  /**
+   * Describe a write without sending it
+   * Target comments are looked up with the API key (1 unit per 50 IDs) so
+   * missing IDs surface before the real call
+   */
+  private async dryRun(
+    endpoint: QuotaEndpoint,
+    request: Record<string, unknown>,
+    targetIds?: string[],
+    calls = 1
+  ): Promise<DryRunResult> {
+    const result: DryRunResult = {
+      dryRun: true,
+      endpoint,
+      quotaCost: QUOTA_COSTS[endpoint] * calls,
+      request,
+      authenticated: await this.oauthClient.hasValidTokens('youtube')
+    };
+
+    if (targetIds) {
+      result.targets = await this.getComments(targetIds);
+      const found = new Set(result.targets.map(comment => comment.id));
+      const notFound = targetIds.filter(id => !found.has(id));
+      if (notFound.length) result.notFound = notFound;
+    }
+    return result;
+  }
+
+  private async getComments(ids: string[]): Promise<any[]> {
+    const batches = await mapWithConcurrency(chunk(ids, COMMENT_ID_BATCH), REPLY_CONCURRENCY, async batch => {
+      const response = await this.client.call('comments.list', (youtube, options) => youtube.comments.list({
+        part: ['snippet'],
+        id: batch,
+        textFormat: 'plainText'
+      }, options));
+      return response.data.items || [];
+    });
+    return batches.flat();
+  }
+
+  private checkText(text: string): string {
+    if (!text?.trim()) {
+      throw new InvalidArgumentError('Comment text must not be empty', { field: 'text' });
+    }
+    if (text.length > MAX_COMMENT_LENGTH) {
+      throw new InvalidArgumentError(`Comment text is limited to ${MAX_COMMENT_LENGTH} characters (got ${text.length})`, { field: 'text' });
+    }
+    return text;
+  }
+
+  private checkIds(commentIds: string[]): string[] {
+    const ids = [...new Set(commentIds.map(id => id.trim()).filter(Boolean))];
+    if (ids.length === 0) {
+      throw new InvalidArgumentError('At least one comment ID is required', { field: 'commentIds' });
+    }
+    return ids;
+  }
+
+  private async fetchThreads(
+    { videoId, channelId, order, maxResults, pageToken, searchTerms }: CommentThreadsParams & { searchTerms?: string },
+    includeReplies: boolean,
+    allReplies: boolean
+  ): Promise<PagedResult<any>> {
+    if (!videoId === !channelId) {
+      throw new InvalidArgumentError('Pass exactly one of videoId or channelId', { field: videoId ? 'channelId' : 'videoId' });
+    }
+
+    const result = await fetchPages(async (token, pageSize) => {
+      const response = await this.client.call('commentThreads.list', (youtube, options) => youtube.commentThreads.list({
+        part: includeReplies ? ['snippet', 'replies'] : ['snippet'],
+        ...(videoId ? { videoId } : { allThreadsRelatedToChannelId: channelId }),
+        order,
+        searchTerms,
+        maxResults: pageSize,
+        pageToken: token,
+        textFormat: 'plainText'
+      }, options));
+      return response.data;
+    }, maxResults, pageToken, COMMENT_PAGE_SIZE);
+
+    if (allReplies) {
+      result.items = await mapWithConcurrency(result.items, REPLY_CONCURRENCY, thread => this.expandReplies(thread));
+    }
+    return result;
+  }
+
+  /**
+   * Replace the inline replies (at most 5) with the complete list from comments.list
+   */
+  private async expandReplies(thread: any): Promise<any> {
+    const totalReplyCount = thread.snippet?.totalReplyCount || 0;
+    if (totalReplyCount <= (thread.replies?.comments?.length || 0)) return thread;
+
+    const { items } = await fetchPages(async (token, pageSize) => {
+      const response = await this.client.call('comments.list', (youtube, options) => youtube.comments.list({
+        part: ['snippet'],
+        parentId: thread.id,
+        maxResults: pageSize,
+        pageToken: token,
+        textFormat: 'plainText'
+      }, options));
+      return response.data;
+    }, totalReplyCount, undefined, COMMENT_PAGE_SIZE);
+
+    return { ...thread, replies: { comments: items } };
+  }
+
+  private disabledOrThrow(error: unknown, context: string): PagedResult<any> & { commentsDisabled: true } {
+    if (getErrorReason(error) === 'commentsDisabled') {
+      return { items: [], nextPageToken: null, totalResults: 0, commentsDisabled: true };
+    }
+    throw toServiceError(error, context);
+  }
+}
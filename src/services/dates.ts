@@ -0,0 +1,14 @@
+import { InvalidArgumentError } from '../errors.js';
+
+/**
+ * Parse an RFC 3339 / ISO 8601 timestamp argument to epoch ms
+ */
+export function parseTimestamp(value: string | undefined, field: string): number | undefined {
+  if (value === undefined) return undefined;
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new InvalidArgumentError(`Invalid ${field}: expected an ISO 8601 timestamp such as 2024-01-31T00:00:00Z`, { field, expected: 'date-time' });
+  }
+  return time;
+}
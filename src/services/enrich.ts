@@ -0,0 +1,40 @@
+import { VideoEnrichment } from '../types.js';
+
+/**
+ * Seconds in an ISO 8601 duration as used by contentDetails.duration
+ * ("PT1H2M3S", "P1DT2H", "P0D" for live streams); null if unparseable
+ */
+export function parseIsoDuration(duration: string | null | undefined): number | null {
+  const match = duration?.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) return null;
+
+  const [, weeks, days, hours, minutes, seconds] = match.map(part => Number(part || 0));
+  return (((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds;
+}
+
+/**
+ * Video ID of a search result, playlist item or video resource
+ */
+export function resultVideoId(item: any): string | undefined {
+  if (item?.contentDetails?.videoId) return item.contentDetails.videoId;
+  if (typeof item?.id === 'string') return item.id;
+  return item?.id?.videoId || undefined;
+}
+
+function count(value: string | null | undefined): number | null {
+  return value === undefined || value === null ? null : Number(value);
+}
+
+/**
+ * Parsed duration, counts and caption flag from a videos.list resource
+ * Counts are null when hidden by the owner
+ */
+export function toEnrichment(video: any): VideoEnrichment {
+  return {
+    durationSeconds: parseIsoDuration(video.contentDetails?.duration),
+    viewCount: count(video.statistics?.viewCount),
+    likeCount: count(video.statistics?.likeCount),
+    commentCount: count(video.statistics?.commentCount),
+    hasCaptions: video.contentDetails?.caption === 'true'
+  };
+}
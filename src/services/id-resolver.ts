@@ -0,0 +1,180 @@
+import { getYouTubeClientProvider } from './youtube-client.js';
+import { InvalidArgumentError, NotFoundError, toServiceError } from '../errors.js';
+
+const VIDEO_ID = /^[A-Za-z0-9_-]{11}$/;
+const CHANNEL_ID = /^UC[A-Za-z0-9_-]{22}$/;
+const YOUTUBE_HOST = /(^|\.)(youtube\.com|youtube-nocookie\.com|youtu\.be)$/i;
+
+// Path prefixes followed by a video ID: /shorts/ID, /embed/ID, /live/ID, /v/ID
+const VIDEO_PATH_PREFIXES = ['shorts', 'embed', 'live', 'v', 'e'];
+
+/**
+ * Channel reference parsed from user input, before any API lookup
+ */
+export type ChannelRef =
+  | { kind: 'id'; value: string }
+  | { kind: 'handle'; value: string }
+  | { kind: 'username'; value: string }
+  | { kind: 'custom'; value: string };
+
+/**
+ * Parse a URL-ish string, accepting inputs without a scheme (youtu.be/ID)
+ * Returns null for anything that is not a YouTube URL
+ */
+function parseYouTubeUrl(input: string): URL | null {
+  if (!/[./]/.test(input) || input.startsWith('@')) return null;
+
+  try {
+    const url = new URL(/^[a-z]+:\/\//i.test(input) ? input : `https://${input}`);
+    return YOUTUBE_HOST.test(url.hostname) ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function pathSegments(url: URL): string[] {
+  return url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+}
+
+/**
+ * Video ID from a raw ID, watch/shorts/embed/live URL or youtu.be link
+ * Non-URL input is returned unchanged
+ */
+export function parseVideoId(input: string): string {
+  const value = input.trim();
+  const url = parseYouTubeUrl(value);
+  if (!url) return value;
+
+  const segments = pathSegments(url);
+  const candidate = /youtu\.be$/i.test(url.hostname)
+    ? segments[0]
+    : url.searchParams.get('v') || (VIDEO_PATH_PREFIXES.includes(segments[0]) ? segments[1] : undefined);
+
+  if (!candidate || !VIDEO_ID.test(candidate)) {
+    throw new InvalidArgumentError(`Could not find a video ID in "${input}"`, { field: 'videoId' });
+  }
+  return candidate;
+}
+
+/**
+ * Playlist ID from a raw ID or any URL with a list= parameter
+ * Non-URL input is returned unchanged
+ */
+export function parsePlaylistId(input: string): string {
+  const value = input.trim();
+  const url = parseYouTubeUrl(value);
+  if (!url) return value;
+
+  const list = url.searchParams.get('list');
+  if (!list) {
+    throw new InvalidArgumentError(`Could not find a playlist ID (list=...) in "${input}"`, { field: 'playlistId' });
+  }
+  return list;
+}
+
+/**
+ * Channel reference from a raw ID, @handle, or /channel/, /@, /c/ and /user/ URL
+ * Other non-URL input is treated as a channel ID
+ */
+export function parseChannelRef(input: string): ChannelRef {
+  const value = input.trim();
+  if (value.startsWith('@')) {
+    return { kind: 'handle', value };
+  }
+
+  const url = parseYouTubeUrl(value);
+  if (!url) return { kind: 'id', value };
+
+  const [first, second] = pathSegments(url);
+  if (first?.startsWith('@')) return { kind: 'handle', value: first };
+  if (first === 'channel' && second && CHANNEL_ID.test(second)) return { kind: 'id', value: second };
+  if (first === 'user' && second) return { kind: 'username', value: second };
+  if (first === 'c' && second) return { kind: 'custom', value: second };
+
+  throw new InvalidArgumentError(`Could not find a channel in "${input}"`, { field: 'channelId' });
+}
+
+/**
+ * Normalizes video, playlist and channel references to raw IDs
+ *
+ * URLs are parsed locally; @handles, /user/ and /c/ names are looked up with
+ * channels.list (1 unit) and remembered for the life of the process.
+ */
+export class IdResolver {
+  private client = getYouTubeClientProvider();
+  private channelCache = new Map<string, string>();
+
+  async resolveVideoId(input: string): Promise<string> {
+    return parseVideoId(input);
+  }
+
+  async resolvePlaylistId(input: string): Promise<string> {
+    return parsePlaylistId(input);
+  }
+
+  /**
+   * Channel ID for any supported channel reference
+   */
+  async resolveChannelId(input: string): Promise<string> {
+    const ref = parseChannelRef(input);
+    if (ref.kind === 'id') return ref.value;
+
+    const cacheKey = `${ref.kind}:${ref.value.toLowerCase()}`;
+    const cached = this.channelCache.get(cacheKey);
+    if (cached) return cached;
+
+    // Custom /c/ names have no lookup of their own; most match a handle or legacy username
+    const channelId = ref.kind === 'username'
+      ? await this.lookupChannel({ forUsername: ref.value })
+      : await this.lookupChannel({ forHandle: ref.value }) ||
+        (ref.kind === 'custom' ? await this.lookupChannel({ forUsername: ref.value }) : null);
+
+    if (!channelId) {
+      throw new NotFoundError(`No channel found for "${input}"`, { channelId: input });
+    }
+    this.channelCache.set(cacheKey, channelId);
+    return channelId;
+  }
+
+  /**
+   * Resolve every ID-bearing argument in place
+   * Returns the fields whose value changed, mapped to the resolved ID(s)
+   */
+  async resolveArgs(args: Record<string, any>): Promise<Record<string, string | string[]> | null> {
+    const resolved: Record<string, string | string[]> = {};
+
+    const resolveField = async (field: string, resolve: (input: string) => Promise<string>) => {
+      if (typeof args[field] !== 'string') return;
+      const id = await resolve(args[field]);
+      if (id !== args[field]) {
+        resolved[field] = id;
+        args[field] = id;
+      }
+    };
+
+    await resolveField('videoId', input => this.resolveVideoId(input));
+    await resolveField('playlistId', input => this.resolvePlaylistId(input));
+    await resolveField('channelId', input => this.resolveChannelId(input));
+
+    if (Array.isArray(args.videoIds)) {
+      const ids = await Promise.all(args.videoIds.map((input: string) => this.resolveVideoId(String(input))));
+      if (ids.some((id, i) => id !== args.videoIds[i])) {
+        resolved.videoIds = ids;
+        args.videoIds = ids;
+      }
+    }
+
+    return Object.keys(resolved).length ? resolved : null;
+  }
+
+  private async lookupChannel(filter: { forHandle?: string; forUsername?: string }): Promise<string | null> {
+    try {
+      // forHandle is not in the published typings yet
+      const params: any = { part: ['id'], ...filter };
+      const response = await this.client.call('channels.list', (youtube, options) => youtube.channels.list(params, options));
+      return response.data.items?.[0]?.id || null;
+    } catch (error) {
+      throw toServiceError(error, 'Failed to resolve channel');
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import * as fs from 'fs/promises';
+import { InvalidArgumentError, toServiceError } from '../errors.js';
+import { writeStateFile } from './state-file.js';
+
+export interface IdempotencyConfig {
+  ttlHours: number;
+  statePath?: string;  // Persist records so retries after a restart are still recognized
+}
+
+export function getIdempotencyConfig(): IdempotencyConfig {
+  return {
+    ttlHours: process.env.YOUTUBE_IDEMPOTENCY_TTL_HOURS ? parseFloat(process.env.YOUTUBE_IDEMPOTENCY_TTL_HOURS) : 24,
+    statePath: process.env.YOUTUBE_IDEMPOTENCY_STATE_PATH || undefined
+  };
+}
+
+interface IdempotencyRecord {
+  fingerprint: string;   // Operation and arguments the key was first used with
+  expiresAt: number;     // Epoch ms
+  completed: Record<string, unknown>;
+}
+
+/**
+ * Completed steps of one idempotent request
+ * Steps recorded here are replayed instead of repeated when the key is reused
+ */
+export interface IdempotencyJournal {
+  completed<T>(step: string): T | undefined;
+  complete(step: string, result: unknown): Promise<void>;  // Rejects when the record cannot be persisted
+}
+
+// Journal for requests sent without a key: nothing is remembered
+const NO_JOURNAL: IdempotencyJournal = {
+  completed: () => undefined,
+  complete: async () => undefined
+};
+
+/**
+ * Step-level record of write requests keyed by a client-supplied idempotency key
+ *
+ * Requests with the same key run one at a time. A retry sees which steps
+ * already succeeded, so a request that failed halfway can be repeated without
+ * redoing (e.g. double-inserting) the completed part.
+ */
+export class IdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+  private locks = new Map<string, Promise<unknown>>();
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private config: IdempotencyConfig = getIdempotencyConfig()) {}
+
+  /**
+   * Run `fn` with the journal for `key`
+   * Reusing a key with different arguments is rejected
+   */
+  async run<T>(key: string | undefined, fingerprint: string, fn: (journal: IdempotencyJournal) => Promise<T>): Promise<T> {
+    if (!key) return fn(NO_JOURNAL);
+
+    const previous = this.locks.get(key) || Promise.resolve();
+    const turn = previous.catch(() => undefined).then(async () => {
+      await this.load();
+      return fn(this.journal(key, fingerprint));
+    });
+
+    this.locks.set(key, turn);
+    try {
+      return await turn;
+    } finally {
+      if (this.locks.get(key) === turn) this.locks.delete(key);
+    }
+  }
+
+  private journal(key: string, fingerprint: string): IdempotencyJournal {
+    this.prune();
+
+    let record = this.records.get(key);
+    if (record && record.fingerprint !== fingerprint) {
+      throw new InvalidArgumentError('idempotencyKey was already used for a different request', { field: 'idempotencyKey' });
+    }
+    if (!record) {
+      record = { fingerprint, expiresAt: Date.now() + this.config.ttlHours * 60 * 60 * 1000, completed: {} };
+      this.records.set(key, record);
+    }
+
+    return {
+      completed: <T>(step: string) => record.completed[step] as T | undefined,
+      complete: (step: string, result: unknown) => {
+        record.completed[step] = result;
+        return this.save();
+      }
+    };
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, record] of this.records) {
+      if (record.expiresAt <= now) this.records.delete(key);
+    }
+  }
+
+  /**
+   * Load persisted records once; concurrent callers share the same read
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readState();
+    }
+    return this.loading;
+  }
+
+  private async readState(): Promise<void> {
+    if (!this.config.statePath) return;
+
+    try {
+      const saved: Record<string, IdempotencyRecord> = JSON.parse(await fs.readFile(this.config.statePath, 'utf-8'));
+      this.records = new Map(Object.entries(saved));
+    } catch {
+      // No saved state yet
+    }
+  }
+
+  /**
+   * Write every record after any write still in flight (requests with different keys run concurrently)
+   * A failed write rejects: a retry that cannot see completed steps would repeat them
+   */
+  private save(): Promise<void> {
+    const statePath = this.config.statePath;
+    if (!statePath) return Promise.resolve();
+
+    const write = this.saving.catch(() => undefined).then(() => writeStateFile(statePath, Object.fromEntries(this.records)));
+    this.saving = write;
+    return write.catch(error => {
+      throw toServiceError(error, 'Failed to save idempotency state');
+    });
+  }
+}
+
+let sharedStore: IdempotencyStore | null = null;
+
+/**
+ * Process-wide idempotency store shared by every service
+ */
+export function getIdempotencyStore(): IdempotencyStore {
+  if (!sharedStore) {
+    sharedStore = new IdempotencyStore();
+  }
+  return sharedStore;
+}
@@ -0,0 +1,47 @@
+import { PagedResult } from '../types.js';
+
+// Largest maxResults the YouTube Data API accepts for a single list call
+export const MAX_PAGE_SIZE = 50;
+
+/**
+ * Shape shared by every YouTube Data API list response
+ */
+interface ListResponse<T> {
+  items?: T[];
+  nextPageToken?: string | null;
+  pageInfo?: {
+    totalResults?: number | null;
+  };
+}
+
+/**
+ * Fetch consecutive pages until `maxResults` items are collected or the
+ * results run out. The returned nextPageToken continues from the last page
+ * fetched, so callers can keep paging manually.
+ * `maxPageSize` is for endpoints that allow more than 50 per page (comments: 100)
+ */
+export async function fetchPages<T>(
+  fetchPage: (pageToken: string | undefined, pageSize: number) => Promise<ListResponse<T>>,
+  maxResults: number,
+  pageToken?: string,
+  maxPageSize: number = MAX_PAGE_SIZE
+): Promise<PagedResult<T>> {
+  const items: T[] = [];
+  let nextPageToken: string | undefined = pageToken;
+  let totalResults: number | null = null;
+
+  do {
+    const pageSize = Math.min(maxPageSize, maxResults - items.length);
+    const response = await fetchPage(nextPageToken, pageSize);
+
+    items.push(...(response.items || []));
+    nextPageToken = response.nextPageToken || undefined;
+    totalResults = response.pageInfo?.totalResults ?? totalResults;
+  } while (nextPageToken && items.length < maxResults);
+
+  return {
+    items,
+    nextPageToken: nextPageToken || null,
+    totalResults
+  };
+}
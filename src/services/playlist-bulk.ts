@@ -0,0 +1,383 @@
+import {
+  BulkPlaylistParams,
+  SyncPlaylistParams,
+  ApplyPlaylistParams,
+  BulkItemResult,
+  BulkItemStatus,
+  BulkPlaylistReport,
+  PlaylistSyncPlan
+} from '../types.js';
+import { PlaylistService } from './playlist.js';
+import { VideoQueryResolver } from './video-query.js';
+import { planPlaylistSync } from './playlist-diff.js';
+import { getIdempotencyStore, IdempotencyJournal, IdempotencyStore } from './idempotency.js';
+import { InvalidArgumentError, ServiceError, toServiceError } from '../errors.js';
+
+export interface BulkPlaylistConfig {
+  writeIntervalMs: number;  // Minimum gap between playlist writes, across all bulk requests
+  maxItems: number;         // Videos accepted per request
+}
+
+export function getBulkPlaylistConfig(): BulkPlaylistConfig {
+  return {
+    writeIntervalMs: process.env.YOUTUBE_PLAYLIST_WRITE_INTERVAL_MS ? parseInt(process.env.YOUTUBE_PLAYLIST_WRITE_INTERVAL_MS, 10) : 500,
+    maxItems: process.env.YOUTUBE_PLAYLIST_BULK_MAX_ITEMS ? parseInt(process.env.YOUTUBE_PLAYLIST_BULK_MAX_ITEMS, 10) : 200
+  };
+}
+
+// YouTube caps playlists at 5000 items
+const MAX_DESIRED_VIDEOS = 5000;
+
+// Errors after which further writes in the same request cannot succeed
+const HALTING_ERRORS = new Set(['QUOTA_EXCEEDED', 'AUTH_REQUIRED']);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * One playlist write within a bulk request
+ * `step` identifies it in the idempotency journal
+ */
+interface PlannedWrite {
+  step: string;
+  videoId: string;
+  playlistItemId?: string;
+  status: Extract<BulkItemStatus, 'added' | 'removed'>;
+  write: () => Promise<string | undefined>;
+}
+
+/**
+ * Bulk add, remove and sync of playlist videos, and declarative apply (OAuth)
+ *
+ * The playlist is read once to skip videos already present (or already gone),
+ * writes run one at a time with a minimum interval, and every video gets its
+ * own outcome in the report. A failed write does not stop the rest unless it
+ * means no later write can succeed (quota exhausted, OAuth missing).
+ */
+export class PlaylistBulkService {
+  private nextWriteAt = 0;
+
+  constructor(
+    private playlistService: PlaylistService = new PlaylistService(),
+    private queries: VideoQueryResolver = new VideoQueryResolver(undefined, undefined, playlistService),
+    private idempotency: IdempotencyStore = getIdempotencyStore(),
+    private config: BulkPlaylistConfig = getBulkPlaylistConfig()
+  ) {}
+
+  /**
+   * Add videos that are not in the playlist yet
+   */
+  async addVideos({ playlistId, videoIds, idempotencyKey }: BulkPlaylistParams): Promise<BulkPlaylistReport> {
+    const ids = this.checkVideoIds(videoIds);
+
+    return this.idempotency.run(idempotencyKey, JSON.stringify(['add', playlistId, ids]), async journal => {
+      const present = this.indexByVideo(await this.playlistService.getAllPlaylistItems(playlistId));
+      const skipped: BulkItemResult[] = [];
+      const writes: PlannedWrite[] = [];
+
+      for (const videoId of ids) {
+        if (present.has(videoId) && !journal.completed(`add:${videoId}`)) {
+          skipped.push({ videoId, status: 'skipped', reason: 'alreadyInPlaylist', playlistItemId: present.get(videoId)[0] });
+        } else {
+          writes.push(this.addWrite(playlistId, videoId));
+        }
+      }
+
+      return this.report(playlistId, 'add', idempotencyKey, ids, [...skipped, ...await this.applyWrites(writes, journal)]);
+    });
+  }
+
+  /**
+   * Remove every occurrence of the given videos from the playlist
+   */
+  async removeVideos({ playlistId, videoIds, idempotencyKey }: BulkPlaylistParams): Promise<BulkPlaylistReport> {
+    const ids = this.checkVideoIds(videoIds);
+
+    return this.idempotency.run(idempotencyKey, JSON.stringify(['remove', playlistId, ids]), async journal => {
+      const present = this.indexByVideo(await this.playlistService.getAllPlaylistItems(playlistId));
+      const skipped: BulkItemResult[] = [];
+      const writes: PlannedWrite[] = [];
+
+      for (const videoId of ids) {
+        const itemIds = present.get(videoId) || [];
+        if (itemIds.length === 0) {
+          skipped.push({ videoId, status: 'skipped', reason: 'notInPlaylist' });
+        }
+        writes.push(...itemIds.map(playlistItemId => this.removeWrite(videoId, playlistItemId)));
+      }
+
+      return this.report(playlistId, 'remove', idempotencyKey, ids, [...skipped, ...await this.applyWrites(writes, journal)]);
+    });
+  }
+
+  /**
+   * Add the videos missing from the playlist and, unless removeExtra is false,
+   * remove the ones not listed
+   */
+  async syncVideos({ playlistId, videoIds, removeExtra = true, idempotencyKey }: SyncPlaylistParams): Promise<BulkPlaylistReport> {
+    const ids = this.checkVideoIds(videoIds);
+
+    return this.idempotency.run(idempotencyKey, JSON.stringify(['sync', playlistId, ids, removeExtra]), async journal => {
+      const present = this.indexByVideo(await this.playlistService.getAllPlaylistItems(playlistId));
+      const wanted = new Set(ids);
+      const skipped: BulkItemResult[] = [];
+      const writes: PlannedWrite[] = [];
+
+      for (const videoId of ids) {
+        if (present.has(videoId) && !journal.completed(`add:${videoId}`)) {
+          skipped.push({ videoId, status: 'skipped', reason: 'alreadyInPlaylist', playlistItemId: present.get(videoId)[0] });
+        } else {
+          writes.push(this.addWrite(playlistId, videoId));
+        }
+      }
+      if (removeExtra) {
+        for (const [videoId, itemIds] of present) {
+          if (!wanted.has(videoId)) {
+            writes.push(...itemIds.map(playlistItemId => this.removeWrite(videoId, playlistItemId)));
+          }
+        }
+      }
+
+      return this.report(playlistId, 'sync', idempotencyKey, ids, [...skipped, ...await this.applyWrites(writes, journal)]);
+    });
+  }
+
+  /**
+   * Bring a playlist to a desired state: insert missing videos, delete extras
+   * and duplicates, then reorder to match
+   * With plan: true only the diff is returned. A query is resolved once per
+   * idempotency key and the result journaled, so a retry converges on the same
+   * list even if the query returns something else by then. Moves run after
+   * every insert and delete succeeded, against a fresh read of the playlist,
+   * and are recomputed (not replayed) when the request is retried.
+   */
+  async applyDesiredState({
+    playlistId,
+    videoIds,
+    query,
+    savedQuery,
+    removeExtra = true,
+    reorder = true,
+    plan = false,
+    idempotencyKey
+  }: ApplyPlaylistParams): Promise<PlaylistSyncPlan | BulkPlaylistReport> {
+    const ids = this.checkDesiredSource(videoIds, query, savedQuery);
+    const options = { removeExtra, reorder };
+
+    if (plan) {
+      const desired = await this.desiredVideoIds(ids, query, savedQuery, removeExtra);
+      return planPlaylistSync(playlistId, await this.playlistService.getAllPlaylistItems(playlistId), desired, options);
+    }
+
+    const fingerprint = JSON.stringify(['apply', playlistId, ids ?? null, query ?? null, savedQuery ?? null, removeExtra, reorder]);
+    return this.idempotency.run(idempotencyKey, fingerprint, async journal => {
+      let desired = journal.completed<string[]>('desired');
+      if (!desired) {
+        desired = await this.desiredVideoIds(ids, query, savedQuery, removeExtra);
+        await journal.complete('desired', desired);
+      }
+
+      const diff = planPlaylistSync(playlistId, await this.playlistService.getAllPlaylistItems(playlistId), desired, options);
+      const results = await this.applyWrites([
+        ...diff.inserts.map(({ videoId }) => this.addWrite(playlistId, videoId)),
+        ...diff.deletes.map(({ videoId, playlistItemId }) => this.removeWrite(videoId, playlistItemId))
+      ], journal);
+
+      let pendingMoves: PlaylistSyncPlan['moves'] | null = null;
+      if (reorder && results.every(result => result.status !== 'failed')) {
+        const { inserts, deletes, moves } = planPlaylistSync(playlistId, await this.playlistService.getAllPlaylistItems(playlistId), desired, options);
+        // A read that does not reflect the writes yet would make the positions wrong
+        if (inserts.length === 0 && deletes.length === 0) {
+          results.push(...await this.applyMoves(moves));
+        } else {
+          pendingMoves = moves;
+        }
+      }
+
+      const report = this.report(playlistId, 'apply', idempotencyKey, desired, results);
+      if (pendingMoves) {
+        return { ...report, success: false, plan: diff, reorderSkipped: true, pendingMoves };
+      }
+      return { ...report, plan: diff };
+    });
+  }
+
+  /**
+   * Check that exactly one of videoIds, query or savedQuery is given
+   * Returns the normalized videoIds when they are the source
+   */
+  private checkDesiredSource(
+    videoIds: string[] | undefined,
+    query: ApplyPlaylistParams['query'] | undefined,
+    savedQuery: string | undefined
+  ): string[] | undefined {
+    const given = [videoIds, query, savedQuery].filter(value => value !== undefined).length;
+    if (given !== 1) {
+      throw new InvalidArgumentError('Pass exactly one of videoIds, query or savedQuery', { field: 'videoIds' });
+    }
+    return videoIds && this.checkVideoIds(videoIds, MAX_DESIRED_VIDEOS);
+  }
+
+  /**
+   * Desired video IDs: the given list, or what the query currently returns
+   */
+  private async desiredVideoIds(
+    ids: string[] | undefined,
+    query: ApplyPlaylistParams['query'] | undefined,
+    savedQuery: string | undefined,
+    removeExtra: boolean
+  ): Promise<string[]> {
+    if (ids) return ids;
+
+    const desiredQuery = query || await this.queries.getSavedQuery(savedQuery);
+    // Search has no natural end, so its default page size would silently decide what removeExtra deletes
+    if (removeExtra && desiredQuery?.source === 'search' && desiredQuery.maxResults === undefined) {
+      throw new InvalidArgumentError('query.maxResults is required for search queries when removeExtra is true', { field: 'query.maxResults' });
+    }
+    return this.queries.resolve(desiredQuery);
+  }
+
+  private async applyMoves(moves: PlaylistSyncPlan['moves']): Promise<BulkItemResult[]> {
+    const results: BulkItemResult[] = [];
+    let haltedBy: ServiceError | null = null;
+
+    for (const { videoId, playlistItemId, to } of moves) {
+      if (haltedBy) {
+        results.push({ videoId, playlistItemId, status: 'failed', error: { ...haltedBy.toJSON(), notAttempted: true } });
+        continue;
+      }
+
+      try {
+        await this.throttle();
+        await this.playlistService.movePlaylistItem({ playlistItemId, position: to });
+        results.push({ videoId, playlistItemId, status: 'moved', position: to });
+      } catch (error) {
+        const serviceError = toServiceError(error);
+        results.push({ videoId, playlistItemId, status: 'failed', error: serviceError.toJSON() });
+        if (HALTING_ERRORS.has(serviceError.code)) haltedBy = serviceError;
+      }
+    }
+    return results;
+  }
+
+  private addWrite(playlistId: string, videoId: string): PlannedWrite {
+    return {
+      step: `add:${videoId}`,
+      videoId,
+      status: 'added',
+      write: () => this.playlistService.addVideoToPlaylist(playlistId, videoId)
+    };
+  }
+
+  private removeWrite(videoId: string, playlistItemId: string): PlannedWrite {
+    return {
+      step: `remove:${playlistItemId}`,
+      videoId,
+      playlistItemId,
+      status: 'removed',
+      write: async () => {
+        await this.playlistService.removeVideoFromPlaylist(playlistItemId);
+        return playlistItemId;
+      }
+    };
+  }
+
+  /**
+   * Run planned writes in order, replaying steps the journal already holds
+   */
+  private async applyWrites(writes: PlannedWrite[], journal: IdempotencyJournal): Promise<BulkItemResult[]> {
+    const results: BulkItemResult[] = [];
+    let haltedBy: ServiceError | null = null;
+
+    for (const { step, videoId, playlistItemId, status, write } of writes) {
+      const previous = journal.completed<BulkItemResult>(step);
+      if (previous) {
+        results.push({ ...previous, replayed: true });
+        continue;
+      }
+
+      if (haltedBy) {
+        results.push({ videoId, playlistItemId, status: 'failed', error: { ...haltedBy.toJSON(), notAttempted: true } });
+        continue;
+      }
+
+      let result: BulkItemResult;
+      try {
+        await this.throttle();
+        result = { videoId, status, playlistItemId: await write() };
+      } catch (error) {
+        const serviceError = toServiceError(error);
+        results.push({ videoId, playlistItemId, status: 'failed', error: serviceError.toJSON() });
+        if (HALTING_ERRORS.has(serviceError.code)) haltedBy = serviceError;
+        continue;
+      }
+
+      results.push(result);
+      // The write succeeded; if it cannot be journaled the whole request fails rather than risk a repeat on retry
+      await journal.complete(step, result);
+    }
+    return results;
+  }
+
+  /**
+   * Reserve the next write slot; concurrent bulk requests share the pacing
+   */
+  private async throttle(): Promise<void> {
+    const now = Date.now();
+    const at = Math.max(now, this.nextWriteAt);
+    this.nextWriteAt = at + this.config.writeIntervalMs;
+    if (at > now) await sleep(at - now);
+  }
+
+  /**
+   * Playlist item IDs per video ID (a video can appear more than once)
+   */
+  private indexByVideo(items: any[]): Map<string, string[]> {
+    const index = new Map<string, string[]>();
+    for (const item of items) {
+      const videoId = item.contentDetails?.videoId || item.snippet?.resourceId?.videoId;
+      if (!videoId) continue;
+      index.set(videoId, [...(index.get(videoId) || []), item.id]);
+    }
+    return index;
+  }
+
+  private checkVideoIds(videoIds: string[], max = this.config.maxItems): string[] {
+    const ids = [...new Set(videoIds.map(id => id.trim()).filter(Boolean))];
+    if (ids.length === 0) {
+      throw new InvalidArgumentError('At least one video ID is required', { field: 'videoIds' });
+    }
+    if (ids.length > max) {
+      throw new InvalidArgumentError(`At most ${max} videos per request (got ${ids.length})`, { field: 'videoIds' });
+    }
+    return ids;
+  }
+
+  /**
+   * Report items follow the order of videoIds; removals of unlisted videos (sync, apply) come last
+   */
+  private report(
+    playlistId: string,
+    operation: BulkPlaylistReport['operation'],
+    idempotencyKey: string | undefined,
+    videoIds: string[],
+    items: BulkItemResult[]
+  ): BulkPlaylistReport {
+    const order = new Map(videoIds.map((videoId, index) => [videoId, index]));
+    const sorted = items
+      .map((item, index) => ({ item, index }))
+      .sort((a, b) => (order.get(a.item.videoId) ?? videoIds.length) - (order.get(b.item.videoId) ?? videoIds.length) || a.index - b.index)
+      .map(({ item }) => item);
+
+    const summary: Record<BulkItemStatus, number> = { added: 0, removed: 0, moved: 0, skipped: 0, failed: 0 };
+    for (const item of sorted) summary[item.status]++;
+
+    return {
+      playlistId,
+      operation,
+      ...(idempotencyKey && { idempotencyKey }),
+      success: summary.failed === 0,
+      summary,
+      items: sorted
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import { PlaylistSyncPlan } from '../types.js';
+import { resultVideoId } from './enrich.js';
+import { QUOTA_COSTS } from './quota.js';
+
+/**
+ * Playlist entry in playlist order
+ * Entries still to be inserted have no playlistItemId yet
+ */
+interface PlaylistEntry {
+  videoId: string;
+  playlistItemId?: string;
+}
+
+export interface PlanOptions {
+  removeExtra: boolean;
+  reorder: boolean;
+}
+
+/**
+ * Indexes (into `values`) of a longest strictly increasing subsequence
+ */
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+  const tails: number[] = [];             // Index of the smallest tail for each length
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  values.forEach((value, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    if (low > 0) previous[index] = tails[low - 1];
+    tails[low] = index;
+  });
+
+  const kept = new Set<number>();
+  for (let index = tails[tails.length - 1] ?? -1; index >= 0; index = previous[index]) {
+    kept.add(index);
+  }
+  return kept;
+}
+
+/**
+ * Moves that turn `entries` into `desired` order, fewest first
+ *
+ * Entries on a longest run already in desired order stay put; every other one
+ * is moved, in desired order, to just after its desired predecessor. Each
+ * move's `to` is therefore valid at the time it is applied.
+ */
+export function planMoves(entries: PlaylistEntry[], desired: string[]): PlaylistSyncPlan['moves'] {
+  const rank = new Map(desired.map((videoId, index) => [videoId, index]));
+  const order = entries.filter(entry => rank.has(entry.videoId));
+  const kept = longestIncreasingSubsequence(order.map(entry => rank.get(entry.videoId)));
+  const stays = new Set([...kept].map(index => order[index].videoId));
+
+  // Positions count every entry, including kept extras that are never moved
+  const moves: PlaylistSyncPlan['moves'] = [];
+  const current = [...entries];
+
+  desired.forEach((videoId, index) => {
+    if (stays.has(videoId)) return;
+
+    const from = current.findIndex(entry => entry.videoId === videoId);
+    const [entry] = current.splice(from, 1);
+    const to = index === 0 ? 0 : current.findIndex(other => other.videoId === desired[index - 1]) + 1;
+    current.splice(to, 0, entry);
+
+    if (from !== to) {
+      moves.push({ videoId, ...(entry.playlistItemId && { playlistItemId: entry.playlistItemId }), from, to });
+    }
+  });
+  return moves;
+}
+
+/**
+ * Diff a playlist's current items against the desired video IDs
+ *
+ * Missing videos are inserted (YouTube appends them), unwanted items and
+ * repeated occurrences are deleted, then moves restore the desired order.
+ */
+export function planPlaylistSync(
+  playlistId: string,
+  items: any[],
+  desiredVideoIds: string[],
+  { removeExtra, reorder }: PlanOptions
+): PlaylistSyncPlan {
+  const wanted = new Set(desiredVideoIds);
+  const seen = new Set<string>();
+  const entries: PlaylistEntry[] = [];
+  const deletes: PlaylistSyncPlan['deletes'] = [];
+
+  for (const item of items) {
+    const videoId = resultVideoId(item);
+    if (!videoId) continue;
+
+    if (seen.has(videoId) && wanted.has(videoId)) {
+      deletes.push({ videoId, playlistItemId: item.id, reason: 'duplicate' });
+    } else if (!wanted.has(videoId) && removeExtra) {
+      deletes.push({ videoId, playlistItemId: item.id, reason: 'notWanted' });
+    } else {
+      entries.push({ videoId, playlistItemId: item.id });
+    }
+    seen.add(videoId);
+  }
+
+  const inserts = desiredVideoIds.filter(videoId => !seen.has(videoId)).map(videoId => ({ videoId }));
+  entries.push(...inserts);
+
+  const moves = reorder ? planMoves(entries, desiredVideoIds) : [];
+
+  return {
+    playlistId,
+    desiredVideoIds,
+    inserts,
+    deletes,
+    moves,
+    quotaCost: inserts.length * QUOTA_COSTS['playlistItems.insert'] +
+      deletes.length * QUOTA_COSTS['playlistItems.delete'] +
+      moves.length * (QUOTA_COSTS['playlistItems.update'] + QUOTA_COSTS['playlistItems.list']),
+    inSync: inserts.length + deletes.length + moves.length === 0
+  };
+}
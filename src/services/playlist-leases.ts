@@ -0,0 +1,224 @@
+import * as fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { youtube_v3 } from 'googleapis';
+import { ClaimPlaylistItemParams, LeaseParams, PlaylistLease } from '../types.js';
+import { PlaylistService } from './playlist.js';
+import { NotFoundError, toServiceError } from '../errors.js';
+import { writeStateFile } from './state-file.js';
+
+export interface LeaseConfig {
+  leaseSeconds: number;     // Default lease length
+  maxLeaseSeconds: number;
+  ackedTtlSeconds: number;  // How long acked items stay hidden while the playlist listing catches up
+  statePath?: string;       // Leases are kept in memory only when unset
+}
+
+/**
+ * Read lease configuration from the environment
+ */
+export function getLeaseConfig(): LeaseConfig {
+  const persistDisabled = process.env.PLAYLIST_LEASE_STATE_PATH === 'false';
+  return {
+    leaseSeconds: process.env.PLAYLIST_LEASE_SECONDS ? parseInt(process.env.PLAYLIST_LEASE_SECONDS, 10) : 600,
+    maxLeaseSeconds: process.env.PLAYLIST_LEASE_MAX_SECONDS ? parseInt(process.env.PLAYLIST_LEASE_MAX_SECONDS, 10) : 24 * 60 * 60,
+    ackedTtlSeconds: 10 * 60,
+    statePath: persistDisabled
+      ? undefined
+      : process.env.PLAYLIST_LEASE_STATE_PATH || path.join(os.tmpdir(), 'youtube-mcp-leases.json')
+  };
+}
+
+interface LeaseState {
+  leases: Record<string, PlaylistLease>;  // By leaseId
+  acked: Record<string, number>;          // playlistItemId → epoch ms until which it stays hidden
+}
+
+/**
+ * Work-queue semantics over a playlist for several workers
+ *
+ * claim hands out the first playlist item without a live lease, ack removes
+ * the item from the playlist (OAuth), and nack or lease expiry returns it to
+ * the pool. Every operation runs under one mutex, so two workers can never
+ * claim the same item, and state is written to disk before the call returns;
+ * if the write fails the operation's changes are undone and the call fails.
+ */
+export class PlaylistLeaseService {
+  private state: LeaseState = { leases: {}, acked: {} };
+  private loading: Promise<void> | null = null;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private playlistService: PlaylistService = new PlaylistService(),
+    private config: LeaseConfig = getLeaseConfig()
+  ) {}
+
+  /**
+   * Claim the next unclaimed item, or return lease: null when every item is taken
+   * Pages through the playlist (1 unit per 50 items) until a free item is found
+   */
+  async claim({ playlistId, leaseSeconds, worker }: ClaimPlaylistItemParams): Promise<{ lease: PlaylistLease | null; message?: string }> {
+    return this.exclusive(async () => {
+      const seconds = Math.min(leaseSeconds ?? this.config.leaseSeconds, this.config.maxLeaseSeconds);
+      const held = new Set([
+        ...Object.values(this.state.leases).map(lease => lease.playlistItemId),
+        ...Object.keys(this.state.acked)
+      ]);
+
+      let pageToken: string | undefined;
+      do {
+        const page = await this.playlistService.getPlaylistItems({ playlistId, maxResults: 50, pageToken });
+        const item = page.items.find(candidate => !held.has(candidate.id));
+
+        if (item) {
+          // Playlist items carry no duration; contentDetails only has the video ID and publish time
+          const details: youtube_v3.Schema$PlaylistItemContentDetails = item.contentDetails || {};
+          const now = Date.now();
+          const lease: PlaylistLease = {
+            leaseId: randomUUID(),
+            playlistId,
+            playlistItemId: item.id,
+            videoId: details.videoId || item.snippet?.resourceId?.videoId || '',
+            title: item.snippet?.title || '',
+            publishedAt: item.snippet?.publishedAt || '',
+            ...(worker && { worker }),
+            claimedAt: new Date(now).toISOString(),
+            expiresAt: new Date(now + seconds * 1000).toISOString()
+          };
+
+          this.state.leases[lease.leaseId] = lease;
+          await this.save();
+          return { lease };
+        }
+        pageToken = page.nextPageToken || undefined;
+      } while (pageToken);
+
+      return { lease: null, message: 'No unclaimed videos in playlist' };
+    });
+  }
+
+  /**
+   * Finish a lease: remove its item from the playlist (OAuth)
+   * If the removal fails the lease is kept, so the ack can be retried
+   */
+  async ack({ leaseId }: LeaseParams): Promise<{ acked: true; lease: PlaylistLease }> {
+    return this.exclusive(async () => {
+      const lease = this.getLease(leaseId);
+
+      try {
+        await this.playlistService.removeVideoFromPlaylist(lease.playlistItemId);
+      } catch (error) {
+        const serviceError = toServiceError(error);
+        // Already gone from the playlist: the work is done either way
+        if (serviceError.code !== 'NOT_FOUND') throw serviceError;
+      }
+
+      delete this.state.leases[leaseId];
+      this.state.acked[lease.playlistItemId] = Date.now() + this.config.ackedTtlSeconds * 1000;
+      await this.save();
+      return { acked: true, lease };
+    });
+  }
+
+  /**
+   * Give up a lease: its item can be claimed again right away
+   */
+  async nack({ leaseId }: LeaseParams): Promise<{ released: true; lease: PlaylistLease }> {
+    return this.exclusive(async () => {
+      const lease = this.getLease(leaseId);
+
+      delete this.state.leases[leaseId];
+      await this.save();
+      return { released: true, lease };
+    });
+  }
+
+  private getLease(leaseId: string): PlaylistLease {
+    const lease = this.state.leases[leaseId];
+    if (!lease) {
+      throw new NotFoundError(`Lease not found or expired: ${leaseId}. The item may have been claimed by another worker.`, { leaseId });
+    }
+    return lease;
+  }
+
+  /**
+   * Run `fn` after every earlier operation finished, with loaded and pruned state
+   * State changes made by a failed `fn` are rolled back
+   */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const turn = this.lock.catch(() => undefined).then(async () => {
+      await this.load();
+      this.prune();
+
+      const snapshot = JSON.stringify(this.state);
+      try {
+        return await fn();
+      } catch (error) {
+        this.state = JSON.parse(snapshot);
+        throw error;
+      }
+    });
+    this.lock = turn;
+    return turn;
+  }
+
+  /**
+   * Drop expired leases (returning their items to the pool) and old ack markers
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [leaseId, lease] of Object.entries(this.state.leases)) {
+      if (Date.parse(lease.expiresAt) <= now) delete this.state.leases[leaseId];
+    }
+    for (const [playlistItemId, hiddenUntil] of Object.entries(this.state.acked)) {
+      if (hiddenUntil <= now) delete this.state.acked[playlistItemId];
+    }
+  }
+
+  /**
+   * Load persisted state once; a failed read is retried by the next operation
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readState().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * A missing file means no saved state yet; an unreadable one fails the call,
+   * since starting empty would hand out items other workers hold
+   */
+  private async readState(): Promise<void> {
+    if (!this.config.statePath) return;
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.config.statePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw toServiceError(error, 'Failed to read lease state');
+    }
+
+    try {
+      const saved: LeaseState = JSON.parse(content);
+      this.state = { leases: saved.leases || {}, acked: saved.acked || {} };
+    } catch (error) {
+      throw toServiceError(error, `Failed to read lease state from ${this.config.statePath}`);
+    }
+  }
+
+  private async save(): Promise<void> {
+    if (!this.config.statePath) return;
+
+    try {
+      await writeStateFile(this.config.statePath, this.state);
+    } catch (error) {
+      throw toServiceError(error, 'Failed to save lease state');
+    }
+  }
+}
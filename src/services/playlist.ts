@@ -1,40 +1,33 @@
-import { google } from 'googleapis';
-import { PlaylistParams, PlaylistItemsParams, SearchParams } from '../types.js';
+import {
+  PlaylistParams,
+  PlaylistItemsParams,
+  CreatePlaylistParams,
+  UpdatePlaylistParams,
+  MovePlaylistItemParams,
+  MyPlaylistsParams,
+  SearchParams,
+  PagedResult
+} from '../types.js';
+import { fetchPages } from './pagination.js';
+import { getYouTubeClientProvider } from './youtube-client.js';
 import { createSharedOAuthClient } from '../shared-oauth/index.js';
+import { AuthRequiredError, InvalidArgumentError, NotFoundError, toServiceError } from '../errors.js';
+
+// YouTube caps playlists at 5000 items
+const MAX_PLAYLIST_ITEMS = 5000;
 
 /**
  * Service for interacting with YouTube playlists
  * Supports both read (API key) and write (OAuth) operations
  */
 export class PlaylistService {
-  private youtube;
-  private youtubeWithOAuth;
-  private initialized = false;
+  private client = getYouTubeClientProvider();
   private oauthClient = createSharedOAuthClient();
 
   constructor() {
     // Don't initialize in constructor
   }
 
-  /**
-   * Initialize the YouTube client for read operations (API key)
-   */
-  private initialize() {
-    if (this.initialized) return;
-
-    const apiKey = process.env.YOUTUBE_API_KEY;
-    if (!apiKey) {
-      throw new Error('YOUTUBE_API_KEY environment variable is not set.');
-    }
-
-    this.youtube = google.youtube({
-      version: "v3",
-      auth: apiKey
-    });
-
-    this.initialized = true;
-  }
-
   /**
    * Initialize YouTube client with OAuth for write operations
    */
@@ -42,17 +35,12 @@ export class PlaylistService {
     const hasValidTokens = await this.oauthClient.hasValidTokens('youtube');
 
     if (!hasValidTokens) {
-      throw new Error('YouTube OAuth authentication required for write operations. Please authenticate first.');
+      throw new AuthRequiredError('YouTube OAuth authentication required for write operations. Call oauth_getStatus (GET /api/oauth/status) for the authorization URL.');
     }
 
     const authenticatedClient = await this.oauthClient.getAuthenticatedClient('youtube');
 
-    this.youtubeWithOAuth = google.youtube({
-      version: "v3",
-      auth: authenticatedClient
-    });
-
-    return this.youtubeWithOAuth;
+    return this.client.createClient(authenticatedClient);
   }
 
   /**
@@ -62,16 +50,19 @@ export class PlaylistService {
     playlistId 
   }: PlaylistParams): Promise<any> {
     try {
-      this.initialize();
-      
-      const response = await this.youtube.playlists.list({
+      const response = await this.client.call('playlists.list', (youtube, options) => youtube.playlists.list({
         part: ['snippet', 'contentDetails'],
         id: [playlistId]
-      });
+      }, options));
       
-      return response.data.items?.[0] || null;
+      const playlist = response.data.items?.[0];
+      if (!playlist) {
+        throw new NotFoundError(`Playlist not found: ${playlistId}`, { playlistId });
+      }
+
+      return playlist;
     } catch (error) {
-      throw new Error(`Failed to get playlist: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to get playlist');
     }
   }
 
@@ -80,20 +71,21 @@ export class PlaylistService {
    */
   async getPlaylistItems({ 
     playlistId, 
-    maxResults = 50 
-  }: PlaylistItemsParams): Promise<any[]> {
+    maxResults = 50,
+    pageToken
+  }: PlaylistItemsParams): Promise<PagedResult<any>> {
     try {
-      this.initialize();
-      
-      const response = await this.youtube.playlistItems.list({
-        part: ['snippet', 'contentDetails'],
-        playlistId,
-        maxResults
-      });
-      
-      return response.data.items || [];
+      return await fetchPages(async (token, pageSize) => {
+        const response = await this.client.call('playlistItems.list', (youtube, options) => youtube.playlistItems.list({
+          part: ['snippet', 'contentDetails'],
+          playlistId,
+          maxResults: pageSize,
+          pageToken: token
+        }, options));
+        return response.data;
+      }, maxResults, pageToken);
     } catch (error) {
-      throw new Error(`Failed to get playlist items: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to get playlist items');
     }
   }
 
@@ -102,21 +94,22 @@ export class PlaylistService {
    */
   async searchPlaylists({
     query,
-    maxResults = 10
-  }: SearchParams): Promise<any[]> {
+    maxResults = 10,
+    pageToken
+  }: SearchParams): Promise<PagedResult<any>> {
     try {
-      this.initialize();
-
-      const response = await this.youtube.search.list({
-        part: ['snippet'],
-        q: query,
-        maxResults,
-        type: ['playlist']
-      });
-
-      return response.data.items || [];
+      return await fetchPages(async (token, pageSize) => {
+        const response = await this.client.call('search.list', (youtube, options) => youtube.search.list({
+          part: ['snippet'],
+          q: query,
+          maxResults: pageSize,
+          pageToken: token,
+          type: ['playlist']
+        }, options));
+        return response.data;
+      }, maxResults, pageToken);
     } catch (error) {
-      throw new Error(`Failed to search playlists: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to search playlists');
     }
   }
 
@@ -127,18 +120,15 @@ export class PlaylistService {
   async getNextVideoToProcess(playlistId: string): Promise<{
     videoId: string;
     title: string;
-    duration?: string;
     publishedAt: string;
     playlistItemId: string;
   } | null> {
     try {
-      this.initialize();
-
-      const response = await this.youtube.playlistItems.list({
+      const response = await this.client.call('playlistItems.list', (youtube, options) => youtube.playlistItems.list({
         part: ['snippet', 'contentDetails'],
         playlistId,
         maxResults: 1
-      });
+      }, options));
 
       const item = response.data.items?.[0];
       if (!item) return null;
@@ -146,12 +136,11 @@ export class PlaylistService {
       return {
         videoId: item.snippet?.resourceId?.videoId || '',
         title: item.snippet?.title || '',
-        duration: item.contentDetails?.duration,
         publishedAt: item.snippet?.publishedAt || '',
         playlistItemId: item.id || ''
       };
     } catch (error) {
-      throw new Error(`Failed to get next video: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to get next video');
     }
   }
 
@@ -164,14 +153,14 @@ export class PlaylistService {
     try {
       const youtubeWithAuth = await this.initializeWithOAuth();
 
-      await youtubeWithAuth.playlistItems.delete({
+      await this.client.call('playlistItems.delete', (youtube, options) => youtube.playlistItems.delete({
         id: playlistItemId
-      });
+      }, options), youtubeWithAuth);
 
       return true;
     } catch (error) {
       console.error('Playlist removal failed:', error);
-      throw new Error(`Failed to remove video from playlist: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to remove video from playlist');
     }
   }
 
@@ -184,7 +173,7 @@ export class PlaylistService {
     try {
       const youtubeWithAuth = await this.initializeWithOAuth();
 
-      const response = await youtubeWithAuth.playlistItems.insert({
+      const response = await this.client.call('playlistItems.insert', (youtube, options) => youtube.playlistItems.insert({
         part: ['snippet'],
         requestBody: {
           snippet: {
@@ -195,12 +184,212 @@ export class PlaylistService {
             }
           }
         }
-      });
+      }, options), youtubeWithAuth);
 
       return response.data.id || '';
     } catch (error) {
       console.error('Failed to add video to playlist:', error);
-      throw new Error(`Failed to add video to playlist: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to add video to playlist');
+    }
+  }
+
+  /**
+   * Create a playlist on the authenticated channel (private unless stated)
+   * Uses OAuth 2.0 authentication for write operations
+   */
+  async createPlaylist({
+    title,
+    description,
+    privacyStatus = 'private'
+  }: CreatePlaylistParams): Promise<any> {
+    try {
+      if (!title?.trim()) {
+        throw new InvalidArgumentError('Playlist title must not be empty', { field: 'title' });
+      }
+
+      const youtubeWithAuth = await this.initializeWithOAuth();
+
+      const response = await this.client.call('playlists.insert', (youtube, options) => youtube.playlists.insert({
+        part: ['snippet', 'status'],
+        requestBody: {
+          snippet: { title, description },
+          status: { privacyStatus }
+        }
+      }, options), youtubeWithAuth);
+
+      return response.data;
+    } catch (error) {
+      console.error('Failed to create playlist:', error);
+      throw toServiceError(error, 'Failed to create playlist');
+    }
+  }
+
+  /**
+   * Rename, re-describe or change the privacy of a playlist
+   * playlists.update replaces the whole snippet, so the current one is fetched
+   * first and only the given fields are changed
+   * Uses OAuth 2.0 authentication for write operations
+   */
+  async updatePlaylist({
+    playlistId,
+    title,
+    description,
+    privacyStatus
+  }: UpdatePlaylistParams): Promise<any> {
+    try {
+      if (title === undefined && description === undefined && privacyStatus === undefined) {
+        throw new InvalidArgumentError('Nothing to update: pass title, description or privacyStatus', { field: 'title' });
+      }
+      if (title !== undefined && !title.trim()) {
+        throw new InvalidArgumentError('Playlist title must not be empty', { field: 'title' });
+      }
+
+      const youtubeWithAuth = await this.initializeWithOAuth();
+
+      // Read through OAuth so private playlists are visible
+      const current = await this.client.call('playlists.list', (youtube, options) => youtube.playlists.list({
+        part: ['snippet', 'status'],
+        id: [playlistId]
+      }, options), youtubeWithAuth);
+
+      const playlist = current.data.items?.[0];
+      if (!playlist) {
+        throw new NotFoundError(`Playlist not found: ${playlistId}`, { playlistId });
+      }
+
+      const response = await this.client.call('playlists.update', (youtube, options) => youtube.playlists.update({
+        part: privacyStatus ? ['snippet', 'status'] : ['snippet'],
+        requestBody: {
+          id: playlistId,
+          snippet: {
+            title: title ?? playlist.snippet?.title,
+            description: description ?? playlist.snippet?.description,
+            defaultLanguage: playlist.snippet?.defaultLanguage,
+            tags: playlist.snippet?.tags
+          },
+          ...(privacyStatus && { status: { privacyStatus } })
+        }
+      }, options), youtubeWithAuth);
+
+      return response.data;
+    } catch (error) {
+      console.error('Failed to update playlist:', error);
+      throw toServiceError(error, 'Failed to update playlist');
+    }
+  }
+
+  /**
+   * Delete a playlist owned by the authenticated channel
+   * Uses OAuth 2.0 authentication for write operations
+   */
+  async deletePlaylist(playlistId: string): Promise<boolean> {
+    try {
+      const youtubeWithAuth = await this.initializeWithOAuth();
+
+      await this.client.call('playlists.delete', (youtube, options) => youtube.playlists.delete({
+        id: playlistId
+      }, options), youtubeWithAuth);
+
+      return true;
+    } catch (error) {
+      console.error('Failed to delete playlist:', error);
+      throw toServiceError(error, 'Failed to delete playlist');
+    }
+  }
+
+  /**
+   * Move a playlist item to a zero-based position
+   * playlistItems.update needs the item's playlist and video, so the item is
+   * fetched first
+   * Uses OAuth 2.0 authentication for write operations
+   */
+  async movePlaylistItem({
+    playlistItemId,
+    position
+  }: MovePlaylistItemParams): Promise<any> {
+    try {
+      const youtubeWithAuth = await this.initializeWithOAuth();
+
+      const current = await this.client.call('playlistItems.list', (youtube, options) => youtube.playlistItems.list({
+        part: ['snippet'],
+        id: [playlistItemId]
+      }, options), youtubeWithAuth);
+
+      const item = current.data.items?.[0];
+      if (!item) {
+        throw new NotFoundError(`Playlist item not found: ${playlistItemId}`, { playlistItemId });
+      }
+
+      const response = await this.client.call('playlistItems.update', (youtube, options) => youtube.playlistItems.update({
+        part: ['snippet'],
+        requestBody: {
+          id: playlistItemId,
+          snippet: {
+            playlistId: item.snippet?.playlistId,
+            resourceId: item.snippet?.resourceId,
+            position
+          }
+        }
+      }, options), youtubeWithAuth);
+
+      return response.data;
+    } catch (error) {
+      console.error('Failed to move playlist item:', error);
+      throw toServiceError(error, 'Failed to move playlist item');
+    }
+  }
+
+  /**
+   * List playlists owned by the authenticated channel, including private ones
+   */
+  async listMyPlaylists({
+    maxResults = 50,
+    pageToken
+  }: MyPlaylistsParams): Promise<PagedResult<any>> {
+    try {
+      const youtubeWithAuth = await this.initializeWithOAuth();
+
+      return await fetchPages(async (token, pageSize) => {
+        const response = await this.client.call('playlists.list', (youtube, options) => youtube.playlists.list({
+          part: ['snippet', 'contentDetails', 'status'],
+          mine: true,
+          maxResults: pageSize,
+          pageToken: token
+        }, options), youtubeWithAuth);
+        return response.data;
+      }, maxResults, pageToken);
+    } catch (error) {
+      throw toServiceError(error, 'Failed to list your playlists');
+    }
+  }
+
+  /**
+   * Every item of a playlist (playlists hold at most 5000 items)
+   * Read through OAuth when authenticated, so private playlists work;
+   * otherwise falls back to getPlaylistItems with the API key
+   */
+  async getAllPlaylistItems(playlistId: string): Promise<any[]> {
+    if (!await this.oauthClient.hasValidTokens('youtube')) {
+      const { items } = await this.getPlaylistItems({ playlistId, maxResults: MAX_PLAYLIST_ITEMS });
+      return items;
+    }
+
+    try {
+      const youtubeWithAuth = await this.initializeWithOAuth();
+
+      const { items } = await fetchPages(async (token, pageSize) => {
+        const response = await this.client.call('playlistItems.list', (youtube, options) => youtube.playlistItems.list({
+          part: ['snippet', 'contentDetails'],
+          playlistId,
+          maxResults: pageSize,
+          pageToken: token
+        }, options), youtubeWithAuth);
+        return response.data;
+      }, MAX_PLAYLIST_ITEMS);
+
+      return items;
+    } catch (error) {
+      throw toServiceError(error, 'Failed to get playlist items');
     }
   }
 
@@ -213,7 +402,7 @@ export class PlaylistService {
       const nextVideo = await this.getNextVideoToProcess(playlistId);
       return nextVideo !== null;
     } catch (error) {
-      throw new Error(`Failed to check playlist videos: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to check playlist videos');
     }
   }
 
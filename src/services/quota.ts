@@ -0,0 +1,276 @@
+import * as fs from 'fs/promises';
+import { writeStateFile } from './state-file.js';
+import { loadApiKeys } from './api-keys.js';
+
+/**
+ * YouTube Data API v3 unit cost per endpoint
+ * https://developers.google.com/youtube/v3/determine_quota_cost
+ */
+export const QUOTA_COSTS = {
+  'videos.list': 1,
+  'channels.list': 1,
+  'playlists.list': 1,
+  'playlistItems.list': 1,
+  'commentThreads.list': 1,
+  'comments.list': 1,
+  'search.list': 100,
+  'playlists.insert': 50,
+  'playlists.update': 50,
+  'playlists.delete': 50,
+  'playlistItems.insert': 50,
+  'playlistItems.update': 50,
+  'playlistItems.delete': 50,
+  'commentThreads.insert': 50,
+  'comments.insert': 50,
+  'comments.update': 50,
+  'comments.delete': 50,
+  'comments.setModerationStatus': 50,
+  'comments.markAsSpam': 50,
+} as const;
+
+export type QuotaEndpoint = keyof typeof QUOTA_COSTS;
+
+// Calls at or above this cost are refused first once the budget runs low
+const EXPENSIVE_CALL_COST = 100;
+
+// Default daily quota of one Google Cloud project
+const DEFAULT_PROJECT_QUOTA = 10000;
+
+// Quota resets at midnight Pacific time
+const QUOTA_TIME_ZONE = 'America/Los_Angeles';
+
+export interface QuotaConfig {
+  dailyBudget: number;
+  degradeAt: number;     // Fraction of the budget after which expensive calls are refused
+  statePath?: string;    // Persist usage so restarts do not reset the count
+}
+
+/**
+ * Read quota configuration from the environment
+ * Without YOUTUBE_QUOTA_BUDGET the budget is one project's default quota per API key,
+ * since each key in the rotation draws on its own project's quota
+ */
+export function getQuotaConfig(keyCount: number = loadApiKeys().length): QuotaConfig {
+  const defaultBudget = DEFAULT_PROJECT_QUOTA * Math.max(1, keyCount);
+  return {
+    dailyBudget: parseBudget(process.env.YOUTUBE_QUOTA_BUDGET, defaultBudget),
+    degradeAt: process.env.YOUTUBE_QUOTA_DEGRADE_AT ? parseFloat(process.env.YOUTUBE_QUOTA_DEGRADE_AT) : 0.9,
+    statePath: process.env.YOUTUBE_QUOTA_STATE_PATH || undefined
+  };
+}
+
+/**
+ * Parse YOUTUBE_QUOTA_BUDGET, falling back to the default when it is not a positive integer
+ * A NaN budget would make every limit check pass and silently disable enforcement
+ */
+function parseBudget(value: string | undefined, defaultBudget: number): number {
+  if (!value) return defaultBudget;
+
+  const budget = Number(value);
+  if (!Number.isInteger(budget) || budget <= 0) {
+    console.error(`Ignoring invalid YOUTUBE_QUOTA_BUDGET "${value}" (expected a positive integer); using ${defaultBudget}`);
+    return defaultBudget;
+  }
+  return budget;
+}
+
+/**
+ * Raised when a call would exceed the configured quota budget
+ */
+export class QuotaBudgetError extends Error {
+  constructor(message: string, readonly endpoint: QuotaEndpoint, readonly resetsAt: string) {
+    super(message);
+    this.name = 'QuotaBudgetError';
+  }
+}
+
+interface QuotaState {
+  date: string;  // YYYY-MM-DD in Pacific time
+  used: number;
+  byEndpoint: Partial<Record<QuotaEndpoint, { calls: number; units: number }>>;
+}
+
+/**
+ * Wall-clock parts of an instant in Pacific time
+ */
+function pacificParts(now: Date): { year: number; month: number; day: number; hour: number; minute: number; second: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: QUOTA_TIME_ZONE,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+/**
+ * Quota day (YYYY-MM-DD, Pacific time) for an instant
+ */
+export function quotaDay(now: Date = new Date()): string {
+  const { year, month, day } = pacificParts(now);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Pacific wall-clock time minus UTC at an instant, in ms
+ */
+function pacificOffsetMs(at: Date): number {
+  const { year, month, day, hour, minute, second } = pacificParts(at);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+/**
+ * Next quota reset (midnight Pacific) after an instant
+ * The offset is re-read at the estimated midnight, since on DST change days
+ * it differs from the offset at `now`
+ */
+export function nextQuotaReset(now: Date = new Date()): Date {
+  const { year, month, day } = pacificParts(now);
+  const midnightWallClockMs = Date.UTC(year, month - 1, day + 1);
+  const estimate = new Date(midnightWallClockMs - pacificOffsetMs(now));
+  return new Date(midnightWallClockMs - pacificOffsetMs(estimate));
+}
+
+/**
+ * Shared ledger of YouTube Data API quota consumption
+ *
+ * Every API call is charged before it is made. Once usage passes `degradeAt`
+ * of the budget, expensive calls (search.list) are refused while cheap ones
+ * continue; at the budget every call is refused until the Pacific-time reset.
+ */
+export class QuotaLedger {
+  private state: QuotaState;
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private config: QuotaConfig = getQuotaConfig()) {
+    this.state = { date: quotaDay(), used: 0, byEndpoint: {} };
+  }
+
+  /**
+   * Load persisted state once; concurrent callers share the same read
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readState();
+    }
+    return this.loading;
+  }
+
+  private async readState(): Promise<void> {
+    if (!this.config.statePath) return;
+
+    try {
+      const saved: QuotaState = JSON.parse(await fs.readFile(this.config.statePath, 'utf-8'));
+      if (saved.date === quotaDay()) {
+        this.state = saved;
+      }
+    } catch {
+      // No saved state yet
+    }
+  }
+
+  /**
+   * Queue a write of the current state behind any write still in flight
+   * Charging never waits for the disk; a failed write is logged and the next one retries
+   */
+  private save(): void {
+    const statePath = this.config.statePath;
+    if (!statePath) return;
+
+    this.saving = this.saving
+      .then(() => writeStateFile(statePath, this.state))
+      .catch(error => {
+        console.error(`Failed to save quota state: ${error instanceof Error ? error.message : error}`);
+      });
+  }
+
+  private rollOver(): void {
+    const today = quotaDay();
+    if (this.state.date !== today) {
+      this.state = { date: today, used: 0, byEndpoint: {} };
+    }
+  }
+
+  /**
+   * Record a call against the budget, refusing it if the budget does not allow it
+   */
+  async charge(endpoint: QuotaEndpoint): Promise<void> {
+    await this.load();
+    this.rollOver();
+
+    const cost = QUOTA_COSTS[endpoint];
+    const { dailyBudget, degradeAt } = this.config;
+    const resetsAt = nextQuotaReset().toISOString();
+
+    if (this.state.used + cost > dailyBudget) {
+      throw new QuotaBudgetError(
+        `YouTube API quota budget exhausted (${this.state.used}/${dailyBudget} units used today); ${endpoint} costs ${cost}. Resets at ${resetsAt}.`,
+        endpoint,
+        resetsAt
+      );
+    }
+    if (cost >= EXPENSIVE_CALL_COST && this.state.used + cost > dailyBudget * degradeAt) {
+      throw new QuotaBudgetError(
+        `YouTube API quota running low (${this.state.used}/${dailyBudget} units used today); refusing ${endpoint} (${cost} units) to preserve budget for cheaper calls. Resets at ${resetsAt}.`,
+        endpoint,
+        resetsAt
+      );
+    }
+
+    this.state.used += cost;
+    const entry = this.state.byEndpoint[endpoint] || { calls: 0, units: 0 };
+    entry.calls += 1;
+    entry.units += cost;
+    this.state.byEndpoint[endpoint] = entry;
+    this.save();
+  }
+
+  /**
+   * Current usage for the quota day
+   */
+  async getStatus(): Promise<{
+    date: string;
+    used: number;
+    budget: number;
+    remaining: number;
+    degraded: boolean;
+    exhausted: boolean;
+    resetsAt: string;
+    byEndpoint: QuotaState['byEndpoint'];
+    costs: typeof QUOTA_COSTS;
+  }> {
+    await this.load();
+    this.rollOver();
+
+    const { dailyBudget, degradeAt } = this.config;
+    return {
+      date: this.state.date,
+      used: this.state.used,
+      budget: dailyBudget,
+      remaining: Math.max(0, dailyBudget - this.state.used),
+      degraded: this.state.used >= dailyBudget * degradeAt,
+      exhausted: this.state.used >= dailyBudget,
+      resetsAt: nextQuotaReset().toISOString(),
+      byEndpoint: this.state.byEndpoint,
+      costs: QUOTA_COSTS
+    };
+  }
+}
+
+let sharedLedger: QuotaLedger | null = null;
+
+/**
+ * Process-wide ledger shared by every service
+ */
+export function getQuotaLedger(): QuotaLedger {
+  if (!sharedLedger) {
+    sharedLedger = new QuotaLedger();
+  }
+  return sharedLedger;
+}
@@ -0,0 +1,17 @@
+import * as fs from 'fs/promises';
+
+/**
+ * Replace a JSON state file atomically
+ * Writes a sibling temp file and renames it over the target, so a crash or a
+ * concurrent reader never sees a half-written file
+ */
+export async function writeStateFile(filePath: string, state: unknown): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    await fs.writeFile(tempPath, JSON.stringify(state));
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true }).catch(() => undefined);
+    throw error;
+  }
+}
@@ -0,0 +1,182 @@
+import * as fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { TranscriptSegment } from '../types.js';
+
+/**
+ * Cached copy of a full (unfiltered) transcript
+ */
+export interface CachedTranscript {
+  videoId: string;
+  language: string;
+  segments: TranscriptSegment[];
+  fetchedAt: number;  // Epoch ms
+  expiresAt: number;  // Epoch ms
+}
+
+/**
+ * Pluggable transcript store keyed by videoId + language
+ */
+export interface TranscriptCache {
+  get(videoId: string, language: string): Promise<CachedTranscript | null>;
+  set(entry: CachedTranscript): Promise<void>;
+  delete(videoId: string, language: string): Promise<void>;
+}
+
+export interface TranscriptCacheConfig {
+  ttlSeconds: number;
+  maxEntries: number;
+  directory?: string;  // Disk store is disabled when unset
+}
+
+/**
+ * Read cache configuration from the environment
+ */
+export function getTranscriptCacheConfig(): TranscriptCacheConfig {
+  const diskDisabled = process.env.TRANSCRIPT_CACHE_DISK === 'false';
+  return {
+    ttlSeconds: process.env.TRANSCRIPT_CACHE_TTL_SECONDS ? parseInt(process.env.TRANSCRIPT_CACHE_TTL_SECONDS, 10) : 24 * 60 * 60,
+    maxEntries: process.env.TRANSCRIPT_CACHE_MAX_ENTRIES ? parseInt(process.env.TRANSCRIPT_CACHE_MAX_ENTRIES, 10) : 50,
+    directory: diskDisabled
+      ? undefined
+      : process.env.TRANSCRIPT_CACHE_DIR || path.join(os.tmpdir(), 'youtube-mcp-transcripts')
+  };
+}
+
+function cacheKey(videoId: string, language: string): string {
+  return `${videoId}:${language}`;
+}
+
+function isExpired(entry: CachedTranscript): boolean {
+  return entry.expiresAt <= Date.now();
+}
+
+/**
+ * In-memory LRU store
+ * Map iteration order doubles as recency order (oldest first)
+ */
+export class MemoryTranscriptCache implements TranscriptCache {
+  private entries = new Map<string, CachedTranscript>();
+
+  constructor(private maxEntries: number = 50) {}
+
+  async get(videoId: string, language: string): Promise<CachedTranscript | null> {
+    const key = cacheKey(videoId, language);
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (isExpired(entry)) return null;
+
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(entry: CachedTranscript): Promise<void> {
+    const key = cacheKey(entry.videoId, entry.language);
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(videoId: string, language: string): Promise<void> {
+    this.entries.delete(cacheKey(videoId, language));
+  }
+}
+
+/**
+ * On-disk store, one JSON file per videoId + language
+ */
+export class DiskTranscriptCache implements TranscriptCache {
+  constructor(private directory: string) {}
+
+  private filePath(videoId: string, language: string): string {
+    const safeName = `${videoId}.${language}`.replace(/[^A-Za-z0-9_.-]/g, '_');
+    return path.join(this.directory, `${safeName}.json`);
+  }
+
+  async get(videoId: string, language: string): Promise<CachedTranscript | null> {
+    try {
+      const content = await fs.readFile(this.filePath(videoId, language), 'utf-8');
+      const entry: CachedTranscript = JSON.parse(content);
+      if (isExpired(entry)) {
+        await this.delete(videoId, language);
+        return null;
+      }
+      return entry;
+    } catch {
+      // Missing or unreadable file is a cache miss
+      return null;
+    }
+  }
+
+  async set(entry: CachedTranscript): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.filePath(entry.videoId, entry.language), JSON.stringify(entry));
+    } catch (error) {
+      // Disk caching is best-effort
+      console.error(`Failed to write transcript cache: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  async delete(videoId: string, language: string): Promise<void> {
+    await fs.rm(this.filePath(videoId, language), { force: true });
+  }
+}
+
+/**
+ * Memory-first cache backed by an optional slower store
+ * Disk hits are promoted into memory
+ */
+export class TieredTranscriptCache implements TranscriptCache {
+  constructor(private memory: TranscriptCache, private disk?: TranscriptCache) {}
+
+  async get(videoId: string, language: string): Promise<CachedTranscript | null> {
+    const fromMemory = await this.memory.get(videoId, language);
+    if (fromMemory || !this.disk) return fromMemory;
+
+    const fromDisk = await this.disk.get(videoId, language);
+    if (fromDisk) {
+      await this.memory.set(fromDisk);
+    }
+    return fromDisk;
+  }
+
+  async set(entry: CachedTranscript): Promise<void> {
+    await this.memory.set(entry);
+    await this.disk?.set(entry);
+  }
+
+  async delete(videoId: string, language: string): Promise<void> {
+    await this.memory.delete(videoId, language);
+    await this.disk?.delete(videoId, language);
+  }
+}
+
+/**
+ * Build the default memory + disk cache from configuration
+ */
+export function createTranscriptCache(config: TranscriptCacheConfig = getTranscriptCacheConfig()): TranscriptCache {
+  const memory = new MemoryTranscriptCache(config.maxEntries);
+  const disk = config.directory ? new DiskTranscriptCache(config.directory) : undefined;
+  return new TieredTranscriptCache(memory, disk);
+}
+
+let sharedCache: TranscriptCache | null = null;
+
+/**
+ * Process-wide cache shared by every TranscriptService instance
+ * (the MCP handlers and the REST API use separate service instances)
+ */
+export function getSharedTranscriptCache(): TranscriptCache {
+  if (!sharedCache) {
+    sharedCache = createTranscriptCache();
+  }
+  return sharedCache;
+}
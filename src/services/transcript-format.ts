@@ -0,0 +1,117 @@
+import { TranscriptSegment, TranscriptFormat } from '../types.js';
+import { InvalidArgumentError } from '../errors.js';
+
+/**
+ * Content-Type for each exportable transcript format
+ */
+export const TRANSCRIPT_CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8'
+};
+
+export const TRANSCRIPT_FORMATS = Object.keys(TRANSCRIPT_CONTENT_TYPES) as TranscriptFormat[];
+
+// Markdown exports start a new section every N seconds
+const MARKDOWN_SECTION_SECONDS = 60;
+
+/**
+ * Format seconds as a timestamp
+ * - clock: M:SS or H:MM:SS (human-readable)
+ * - srt:   HH:MM:SS,mmm
+ * - vtt:   HH:MM:SS.mmm
+ */
+export function formatTimestamp(seconds: number, style: 'clock' | 'srt' | 'vtt' = 'clock'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  const mm = minutes.toString().padStart(2, '0');
+  const ss = secs.toString().padStart(2, '0');
+
+  if (style === 'clock') {
+    return hours > 0 ? `${hours}:${mm}:${ss}` : `${minutes}:${ss}`;
+  }
+
+  const hh = hours.toString().padStart(2, '0');
+  const separator = style === 'srt' ? ',' : '.';
+  return `${hh}:${mm}:${ss}${separator}${ms.toString().padStart(3, '0')}`;
+}
+
+function toSrt(segments: TranscriptSegment[]): string {
+  return segments
+    .map((segment, index) => [
+      String(index + 1),
+      `${formatTimestamp(segment.start, 'srt')} --> ${formatTimestamp(segment.start + segment.duration, 'srt')}`,
+      segment.text
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+function toVtt(segments: TranscriptSegment[]): string {
+  const cues = segments.map(segment => [
+    `${formatTimestamp(segment.start, 'vtt')} --> ${formatTimestamp(segment.start + segment.duration, 'vtt')}`,
+    segment.text
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+function toText(segments: TranscriptSegment[]): string {
+  return segments.map(segment => segment.text.replace(/\s*\n\s*/g, ' ')).join('\n') + '\n';
+}
+
+function toMarkdown(segments: TranscriptSegment[], videoId?: string): string {
+  const lines: string[] = [];
+  if (videoId) {
+    lines.push(`# Transcript: ${videoId}`, '');
+  }
+
+  let sectionStart = -Infinity;
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length > 0) {
+      lines.push(paragraph.join(' '), '');
+      paragraph = [];
+    }
+  };
+
+  for (const segment of segments) {
+    if (segment.start >= sectionStart + MARKDOWN_SECTION_SECONDS) {
+      flush();
+      sectionStart = segment.start;
+      const timestamp = formatTimestamp(segment.start);
+      const heading = videoId
+        ? `## [${timestamp}](https://youtu.be/${videoId}?t=${Math.floor(segment.start)})`
+        : `## ${timestamp}`;
+      lines.push(heading, '');
+    }
+    paragraph.push(segment.text.replace(/\s*\n\s*/g, ' '));
+  }
+  flush();
+
+  return lines.join('\n');
+}
+
+/**
+ * Render transcript segments in a text export format
+ */
+export function formatTranscript(segments: TranscriptSegment[], format: TranscriptFormat, videoId?: string): string {
+  switch (format) {
+    case 'srt':
+      return toSrt(segments);
+    case 'vtt':
+      return toVtt(segments);
+    case 'txt':
+      return toText(segments);
+    case 'markdown':
+      return toMarkdown(segments, videoId);
+    case 'json':
+      return JSON.stringify(segments, null, 2);
+    default:
+      throw new InvalidArgumentError(`Unsupported transcript format: ${format}`, { field: 'format' });
+  }
+}
@@ -0,0 +1,116 @@
+import { TranscriptSegment, TranscriptReflow } from '../types.js';
+import { InvalidArgumentError } from '../errors.js';
+
+// Auto-generated captions rarely carry punctuation, so sentence blocks are
+// also closed on a noticeable pause or once they grow too long
+const SENTENCE_PAUSE_SECONDS = 1.5;
+const SENTENCE_MAX_SECONDS = 30;
+
+// Paragraphs group sentences until a longer pause or size limit
+const PARAGRAPH_PAUSE_SECONDS = 2.5;
+const PARAGRAPH_MAX_SECONDS = 120;
+const PARAGRAPH_MAX_CHARS = 1200;
+
+export const DEFAULT_REFLOW_WINDOW_SECONDS = 30;
+
+const SENTENCE_END = /[.!?…]["')\]]*$/;
+
+function endOf(segment: TranscriptSegment): number {
+  return segment.start + segment.duration;
+}
+
+/**
+ * Merge consecutive segments into one, keeping the first start time and
+ * spanning through the end of the last segment
+ */
+function mergeSegments(segments: TranscriptSegment[]): TranscriptSegment {
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  const text = segments
+    .map(segment => segment.text.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join(' ');
+
+  return {
+    text,
+    start: first.start,
+    duration: Number((endOf(last) - first.start).toFixed(3)),
+    offset: first.offset
+  };
+}
+
+/**
+ * Split a segment list into groups, closing a group whenever `shouldBreak`
+ * says the next segment starts a new block
+ */
+function groupSegments(
+  segments: TranscriptSegment[],
+  shouldBreak: (group: TranscriptSegment[], next: TranscriptSegment) => boolean
+): TranscriptSegment[] {
+  const merged: TranscriptSegment[] = [];
+  let group: TranscriptSegment[] = [];
+
+  for (const segment of segments) {
+    if (group.length > 0 && shouldBreak(group, segment)) {
+      merged.push(mergeSegments(group));
+      group = [];
+    }
+    group.push(segment);
+  }
+  if (group.length > 0) {
+    merged.push(mergeSegments(group));
+  }
+
+  return merged;
+}
+
+function toSentences(segments: TranscriptSegment[]): TranscriptSegment[] {
+  return groupSegments(segments, (group, next) => {
+    const last = group[group.length - 1];
+    return SENTENCE_END.test(last.text.trim())
+      || next.start - endOf(last) >= SENTENCE_PAUSE_SECONDS
+      || endOf(last) - group[0].start >= SENTENCE_MAX_SECONDS;
+  });
+}
+
+function toParagraphs(segments: TranscriptSegment[]): TranscriptSegment[] {
+  return groupSegments(toSentences(segments), (group, next) => {
+    const last = group[group.length - 1];
+    const chars = group.reduce((total, sentence) => total + sentence.text.length, 0);
+    return next.start - endOf(last) >= PARAGRAPH_PAUSE_SECONDS
+      || endOf(last) - group[0].start >= PARAGRAPH_MAX_SECONDS
+      || chars >= PARAGRAPH_MAX_CHARS;
+  });
+}
+
+function toFixedWindows(segments: TranscriptSegment[], windowSeconds: number): TranscriptSegment[] {
+  return groupSegments(segments, (group, next) =>
+    Math.floor(next.start / windowSeconds) !== Math.floor(group[0].start / windowSeconds)
+  );
+}
+
+/**
+ * Merge caption fragments into readable units
+ * - sentences: close on terminal punctuation, a pause, or 30s
+ * - paragraphs: group sentences, closing on a longer pause or size limit
+ * - fixedWindow: one block per windowSeconds of video time
+ */
+export function reflowSegments(
+  segments: TranscriptSegment[],
+  mode: TranscriptReflow,
+  windowSeconds: number = DEFAULT_REFLOW_WINDOW_SECONDS
+): TranscriptSegment[] {
+  switch (mode) {
+    case 'sentences':
+      return toSentences(segments);
+    case 'paragraphs':
+      return toParagraphs(segments);
+    case 'fixedWindow':
+      if (!(windowSeconds > 0)) {
+        throw new InvalidArgumentError('windowSeconds must be a positive number', { field: 'windowSeconds' });
+      }
+      return toFixedWindows(segments, windowSeconds);
+    default:
+      throw new InvalidArgumentError(`Unsupported reflow mode: ${mode}`, { field: 'reflow' });
+  }
+}
@@ -1,5 +1,19 @@
 import { getSubtitles } from "youtube-caption-extractor";
-import { TranscriptParams, SearchTranscriptParams } from '../types.js';
+import { TranscriptParams, SearchTranscriptParams, TranscriptSegment, TranscriptCacheMode } from '../types.js';
+import { TranscriptCache, getSharedTranscriptCache, getTranscriptCacheConfig } from './transcript-cache.js';
+import { formatTimestamp, formatTranscript, TRANSCRIPT_CONTENT_TYPES } from './transcript-format.js';
+import { reflowSegments, DEFAULT_REFLOW_WINDOW_SECONDS } from './transcript-reflow.js';
+import { CaptionsUnavailableError, InvalidArgumentError, toCaptionError, toServiceError } from '../errors.js';
+
+/**
+ * Decoded form of the opaque pagination cursor
+ */
+interface TranscriptCursor {
+  videoId: string;
+  language: string;
+  position: number;
+  filters: Pick<TranscriptParams, 'startTime' | 'endTime' | 'lastMinutes' | 'firstMinutes' | 'maxSegments' | 'maxTokens' | 'endIndex' | 'reflow' | 'windowSeconds'>;
+}
 
 /**
  * Enhanced service for interacting with YouTube video transcripts
@@ -7,9 +21,12 @@ import { TranscriptParams, SearchTranscriptParams } from '../types.js';
  */
 export class TranscriptService {
   private initialized = false;
+  private cache: TranscriptCache;
+  private cacheTtlSeconds: number;
 
-  constructor() {
-    // No initialization needed
+  constructor(cache?: TranscriptCache, cacheTtlSeconds?: number) {
+    this.cache = cache || getSharedTranscriptCache();
+    this.cacheTtlSeconds = cacheTtlSeconds ?? getTranscriptCacheConfig().ttlSeconds;
   }
 
   private initialize() {
@@ -42,30 +59,74 @@ export class TranscriptService {
     return 0;
   }
 
+  /**
+   * Encode an opaque pagination cursor (base64url JSON)
+   */
+  private encodeCursor(cursor: TranscriptCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  /**
+   * Decode a pagination cursor produced by encodeCursor
+   */
+  private decodeCursor(token: string): TranscriptCursor {
+    try {
+      const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf-8'));
+      if (typeof cursor?.videoId !== 'string' || typeof cursor?.position !== 'number') {
+        throw new Error('missing fields');
+      }
+      return cursor;
+    } catch {
+      throw new InvalidArgumentError('Invalid cursor: pass nextCursor/prevCursor exactly as returned', { field: 'cursor' });
+    }
+  }
+
+  /**
+   * Merge a cursor into the request: the cursor's video, language and filter
+   * set win, and its position replaces startIndex
+   */
+  private applyCursor(params: TranscriptParams): TranscriptParams {
+    if (!params.cursor) return params;
+
+    const cursor = this.decodeCursor(params.cursor);
+    if (params.videoId && params.videoId !== cursor.videoId) {
+      throw new InvalidArgumentError(`Cursor belongs to video ${cursor.videoId}, not ${params.videoId}`, { field: 'cursor' });
+    }
+
+    return {
+      ...params,
+      ...cursor.filters,
+      videoId: cursor.videoId,
+      language: cursor.language,
+      startIndex: cursor.position
+    };
+  }
+
   /**
    * Filter transcript segments based on time or index parameters
+   * Returns the requested page plus the bounds needed to build cursors
    */
-  private filterTranscriptSegments(transcript: any[], params: TranscriptParams): any[] {
+  private filterTranscriptSegments(transcript: TranscriptSegment[], params: TranscriptParams): {
+    segments: TranscriptSegment[];
+    startIndex: number;  // First returned index within the time-filtered window
+    endIndex: number;    // Exclusive end of the returned page
+    windowEnd: number;   // Exclusive end of the whole window
+    prevStartIndex: number | null;  // Start of the preceding page, if any
+    estimatedTokens: number;
+  } {
     let filtered = [...transcript];
     
     // Calculate total duration for relative time calculations
     const totalDuration = Math.max(...transcript.map(s => s.start + s.duration));
-    console.log('[DEBUG] Total duration:', totalDuration, 'seconds');
-    console.log('[DEBUG] Filter params:', JSON.stringify(params));
     
     // Apply time-based filtering first
     if (params.startTime !== undefined || params.endTime !== undefined) {
       const startSeconds = params.startTime !== undefined ? this.parseTimeToSeconds(params.startTime) : 0;
       const endSeconds = params.endTime !== undefined ? this.parseTimeToSeconds(params.endTime) : totalDuration;
       
-      console.log('[DEBUG] Time filtering - startSeconds:', startSeconds, 'endSeconds:', endSeconds);
-      console.log('[DEBUG] Original segments:', filtered.length);
-      
       filtered = filtered.filter(segment => 
         segment.start >= startSeconds && segment.start <= endSeconds
       );
-      
-      console.log('[DEBUG] After time filtering:', filtered.length, 'segments');
     }
     
     // Apply lastMinutes filter
@@ -81,49 +142,177 @@ export class TranscriptService {
     }
     
     // Apply index-based filtering
-    if (params.startIndex !== undefined || params.endIndex !== undefined) {
-      const startIdx = params.startIndex || 0;
-      const endIdx = params.endIndex !== undefined ? params.endIndex + 1 : filtered.length;
-      filtered = filtered.slice(startIdx, endIdx);
+    const windowEnd = params.endIndex !== undefined ? Math.min(params.endIndex + 1, filtered.length) : filtered.length;
+    const startIndex = Math.min(params.startIndex || 0, windowEnd);
+    
+    // Apply maxSegments/maxTokens limits (after other filters)
+    const forward = this.packSegments(filtered, startIndex, windowEnd, 1, params);
+    const backward = startIndex > 0
+      ? this.packSegments(filtered, startIndex - 1, -1, -1, params)
+      : null;
+    
+    return {
+      segments: filtered.slice(startIndex, forward.end),
+      startIndex,
+      endIndex: forward.end,
+      windowEnd,
+      prevStartIndex: backward ? backward.end + 1 : null,
+      estimatedTokens: forward.tokens
+    };
+  }
+
+  /**
+   * Rough token estimate for a segment as it will appear in the tool result:
+   * compact JSON (as sent by the MCP server) plus its array separator,
+   * at ~4 characters per token
+   */
+  private estimateTokens(segment: TranscriptSegment): number {
+    return Math.ceil((JSON.stringify(segment).length + 1) / 4);
+  }
+
+  /**
+   * Walk from `from` towards `limit` (exclusive) taking whole segments until
+   * maxSegments or maxTokens is reached. At least one segment is always taken
+   * so a single oversized segment cannot stall pagination.
+   */
+  private packSegments(segments: TranscriptSegment[], from: number, limit: number, step: 1 | -1, params: TranscriptParams): {
+    end: number;  // Exclusive in the direction of travel
+    tokens: number;
+  } {
+    let index = from;
+    let count = 0;
+    let tokens = 0;
+
+    while (index !== limit) {
+      if (params.maxSegments !== undefined && count >= params.maxSegments) break;
+
+      const segmentTokens = this.estimateTokens(segments[index]);
+      if (params.maxTokens !== undefined && count > 0 && tokens + segmentTokens > params.maxTokens) break;
+
+      tokens += segmentTokens;
+      count++;
+      index += step;
+    }
+
+    return { end: index, tokens };
+  }
+
+  /**
+   * Build next/prev cursors for a page
+   * Cursors are only issued when a page size (maxSegments or maxTokens) is in effect
+   */
+  private buildCursors(params: TranscriptParams, page: { endIndex: number; windowEnd: number; prevStartIndex: number | null }): {
+    nextCursor: string | null;
+    prevCursor: string | null;
+  } {
+    if (params.maxSegments === undefined && params.maxTokens === undefined) {
+      return { nextCursor: null, prevCursor: null };
+    }
+
+    const base = {
+      videoId: params.videoId,
+      language: params.language,
+      filters: {
+        startTime: params.startTime,
+        endTime: params.endTime,
+        lastMinutes: params.lastMinutes,
+        firstMinutes: params.firstMinutes,
+        maxSegments: params.maxSegments,
+        maxTokens: params.maxTokens,
+        endIndex: params.endIndex,
+        reflow: params.reflow,
+        windowSeconds: params.windowSeconds
+      }
+    };
+
+    return {
+      nextCursor: page.endIndex < page.windowEnd
+        ? this.encodeCursor({ ...base, position: page.endIndex })
+        : null,
+      prevCursor: page.prevStartIndex !== null
+        ? this.encodeCursor({ ...base, position: page.prevStartIndex })
+        : null
+    };
+  }
+
+  /**
+   * Fetch the full transcript, going through the cache unless told otherwise
+   */
+  private async fetchTranscript(videoId: string, language: string, cacheMode?: TranscriptCacheMode): Promise<{
+    segments: TranscriptSegment[];
+    cacheStatus: 'hit' | 'miss' | 'bypass' | 'refresh';
+    fetchedAt: number;
+  }> {
+    if (!cacheMode) {
+      const cached = await this.cache.get(videoId, language);
+      if (cached) {
+        return { segments: cached.segments, cacheStatus: 'hit', fetchedAt: cached.fetchedAt };
+      }
+    }
+
+    // Use youtube-caption-extractor for better caption access
+    let subtitles;
+    try {
+      subtitles = await getSubtitles({ 
+        videoID: videoId, 
+        lang: language 
+      });
+    } catch (error) {
+      throw toCaptionError(error, videoId, language);
     }
     
-    // Apply maxSegments limit (after other filters)
-    if (params.maxSegments !== undefined && filtered.length > params.maxSegments) {
-      filtered = filtered.slice(0, params.maxSegments);
+    if (!subtitles || subtitles.length === 0) {
+      throw new CaptionsUnavailableError(`No transcript found for video ${videoId} in language ${language}`, { videoId, language });
     }
     
-    return filtered;
+    // Convert to consistent format
+    const segments: TranscriptSegment[] = subtitles.map(subtitle => ({
+      text: subtitle.text,
+      start: Number(subtitle.start),
+      duration: Number(subtitle.dur),
+      offset: Math.round(Number(subtitle.start) * 1000), // Convert to ms for compatibility
+    }));
+
+    const fetchedAt = Date.now();
+    if (cacheMode !== 'bypass' && this.cacheTtlSeconds > 0) {
+      await this.cache.set({
+        videoId,
+        language,
+        segments,
+        fetchedAt,
+        expiresAt: fetchedAt + this.cacheTtlSeconds * 1000
+      });
+    }
+
+    return { segments, cacheStatus: cacheMode || 'miss', fetchedAt };
   }
 
   /**
    * Get the transcript of a YouTube video with segmentation support
    * Now supports auto-generated captions and time-based/segment-based filtering
    */
-  async getTranscript(params: TranscriptParams): Promise<any> {
-    const { videoId, language = process.env.YOUTUBE_TRANSCRIPT_LANG || 'en' } = params;
+  async getTranscript(requestParams: TranscriptParams): Promise<any> {
     try {
       this.initialize();
       
-      // Use youtube-caption-extractor for better caption access
-      const subtitles = await getSubtitles({ 
-        videoID: videoId, 
-        lang: language 
-      });
-      
-      if (!subtitles || subtitles.length === 0) {
-        throw new Error(`No transcript found for video ${videoId} in language ${language}`);
+      const resolved = this.applyCursor(requestParams);
+      const { videoId, language = process.env.YOUTUBE_TRANSCRIPT_LANG || 'en' } = resolved;
+      if (!videoId) {
+        throw new InvalidArgumentError('videoId or cursor is required', { field: 'videoId' });
       }
+      const params = { ...resolved, language };
+      
+      const { segments: sourceSegments, cacheStatus, fetchedAt } = await this.fetchTranscript(videoId, language, params.cache);
       
-      // Convert to consistent format
-      const fullTranscript = subtitles.map(subtitle => ({
-        text: subtitle.text,
-        start: Number(subtitle.start),
-        duration: Number(subtitle.dur),
-        offset: Math.round(Number(subtitle.start) * 1000), // Convert to ms for compatibility
-      }));
+      // Merge caption fragments before filtering so indices and cursors refer to merged units
+      const fullTranscript = params.reflow
+        ? reflowSegments(sourceSegments, params.reflow, params.windowSeconds)
+        : sourceSegments;
       
       // Apply segmentation filters
-      const filteredTranscript = this.filterTranscriptSegments(fullTranscript, params);
+      const page = this.filterTranscriptSegments(fullTranscript, params);
+      const filteredTranscript = page.segments;
+      const { nextCursor, prevCursor } = this.buildCursors(params, page);
       
       // Calculate metadata for filtered transcript
       const totalDuration = Math.max(...fullTranscript.map(s => s.start + s.duration));
@@ -131,29 +320,56 @@ export class TranscriptService {
         ? Math.max(...filteredTranscript.map(s => s.start + s.duration)) - Math.min(...filteredTranscript.map(s => s.start))
         : 0;
       
+      const format = params.format || 'json';
+      const body = format === 'json'
+        ? { transcript: filteredTranscript }
+        : { content: formatTranscript(filteredTranscript, format, videoId), contentType: TRANSCRIPT_CONTENT_TYPES[format] };
+      
       return {
         videoId,
         language,
-        transcript: filteredTranscript,
+        ...body,
         metadata: {
+          format,
           segmentCount: filteredTranscript.length,
           totalSegments: fullTranscript.length,
+          estimatedTokens: page.estimatedTokens,
+          sourceSegments: sourceSegments.length,
+          reflow: params.reflow
+            ? {
+                mode: params.reflow,
+                windowSeconds: params.reflow === 'fixedWindow' ? params.windowSeconds ?? DEFAULT_REFLOW_WINDOW_SECONDS : undefined
+              }
+            : undefined,
           source: 'youtube-caption-extractor',
           totalDuration: totalDuration,
           filteredDuration: filteredDuration,
+          cache: {
+            status: cacheStatus,
+            fetchedAt: new Date(fetchedAt).toISOString()
+          },
           appliedFilters: {
             startTime: params.startTime,
             endTime: params.endTime,
             lastMinutes: params.lastMinutes,
             firstMinutes: params.firstMinutes,
             maxSegments: params.maxSegments,
+            maxTokens: params.maxTokens,
             startIndex: params.startIndex,
             endIndex: params.endIndex
-          }
+          },
+          pagination: {
+            startIndex: page.startIndex,
+            endIndex: page.endIndex,
+            windowSize: page.windowEnd,
+            hasMore: page.endIndex < page.windowEnd
+          },
+          nextCursor,
+          prevCursor
         }
       };
     } catch (error) {
-      throw new Error(`Failed to get transcript: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to get transcript');
     }
   }
 
@@ -163,13 +379,14 @@ export class TranscriptService {
   async searchTranscript({ 
     videoId, 
     query,
-    language = process.env.YOUTUBE_TRANSCRIPT_LANG || 'en' 
+    language = process.env.YOUTUBE_TRANSCRIPT_LANG || 'en',
+    cache
   }: SearchTranscriptParams): Promise<any> {
     try {
       this.initialize();
       
       // Get full transcript first (no segmentation for search)
-      const transcriptResult = await this.getTranscript({ videoId, language });
+      const transcriptResult = await this.getTranscript({ videoId, language, cache });
       const transcript = transcriptResult.transcript;
       
       // Search through transcript for the query
@@ -186,7 +403,7 @@ export class TranscriptService {
         metadata: transcriptResult.metadata
       };
     } catch (error) {
-      throw new Error(`Failed to search transcript: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to search transcript');
     }
   }
   
@@ -198,26 +415,13 @@ export class TranscriptService {
       this.initialize();
       
       // Get raw transcript (with any segmentation filters applied)
-      const transcriptResult = await this.getTranscript(params);
+      const transcriptResult = await this.getTranscript({ ...params, format: 'json' });
       const transcript = transcriptResult.transcript;
       
       // Format timestamps in human-readable format
       const timestampedTranscript = transcript.map((item: any) => {
-        const seconds = item.start;
-        const minutes = Math.floor(seconds / 60);
-        const remainingSeconds = Math.floor(seconds % 60);
-        const hours = Math.floor(minutes / 60);
-        const remainingMinutes = minutes % 60;
-        
-        let formattedTime;
-        if (hours > 0) {
-          formattedTime = `${hours}:${remainingMinutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
-        } else {
-          formattedTime = `${remainingMinutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-        }
-        
         return {
-          timestamp: formattedTime,
+          timestamp: formatTimestamp(item.start),
           text: item.text,
           startTimeSeconds: item.start,
           durationSeconds: item.duration,
@@ -227,8 +431,8 @@ export class TranscriptService {
       });
       
       return {
-        videoId: params.videoId,
-        language: params.language || process.env.YOUTUBE_TRANSCRIPT_LANG || 'en',
+        videoId: transcriptResult.videoId,
+        language: transcriptResult.language,
         timestampedTranscript,
         metadata: {
           ...transcriptResult.metadata,
@@ -236,7 +440,7 @@ export class TranscriptService {
         }
       };
     } catch (error) {
-      throw new Error(`Failed to get timestamped transcript: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to get timestamped transcript');
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,132 @@
+import * as fs from 'fs/promises';
+import { PagedResult, VideoQuery } from '../types.js';
+import { VideoService } from './video.js';
+import { ChannelService } from './channel.js';
+import { PlaylistService } from './playlist.js';
+import { IdResolver } from './id-resolver.js';
+import { resultVideoId } from './enrich.js';
+import { InvalidArgumentError, NotFoundError } from '../errors.js';
+
+const QUERY_SOURCES = ['search', 'channelUploads', 'playlist'];
+
+// Listing sources return every item by default, so a mirror with removeExtra
+// never deletes what lies past a page-sized default; search keeps its default
+const DEFAULT_MAX_RESULTS: Partial<Record<VideoQuery['source'], number>> = {
+  channelUploads: 5000,
+  playlist: 5000
+};
+
+/**
+ * Checks and coerces a query's parameters against the arguments of the tool
+ * its source mirrors (videos_searchVideos, channels_listVideos,
+ * playlists_getPlaylistItems); throws InvalidArgumentError
+ * Returns the parameters in the same shape, with values coerced
+ */
+export type VideoQueryValidator = <T extends object>(source: VideoQuery['source'], params: T) => T;
+
+/**
+ * Read named queries from YOUTUBE_SAVED_QUERIES_FILE, a JSON object mapping
+ * names to VideoQuery objects
+ * Read on every lookup so edits apply without a restart
+ */
+export async function loadSavedQueries(filePath = process.env.YOUTUBE_SAVED_QUERIES_FILE): Promise<Record<string, VideoQuery>> {
+  if (!filePath) return {};
+
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new InvalidArgumentError(`Could not read saved queries from ${filePath}: ${error instanceof Error ? error.message : error}`, { field: 'savedQuery' });
+  }
+}
+
+/**
+ * Turns a search, channel-uploads or playlist query into the video IDs it
+ * currently returns, in result order
+ */
+export class VideoQueryResolver {
+  private validator: VideoQueryValidator | null = null;
+
+  constructor(
+    private videoService: VideoService = new VideoService(),
+    private channelService: ChannelService = new ChannelService(videoService),
+    private playlistService: PlaylistService = new PlaylistService(),
+    private idResolver: IdResolver = new IdResolver()
+  ) {}
+
+  /**
+   * Saved query by name
+   */
+  async getSavedQuery(name: string): Promise<VideoQuery> {
+    const queries = await loadSavedQueries();
+    const query = queries[name];
+    if (!query) {
+      throw new NotFoundError(`Saved query not found: ${name}`, { savedQuery: name, available: Object.keys(queries) });
+    }
+    return query;
+  }
+
+  /**
+   * Validate nested queries like top-level tool arguments (set by the tool registry)
+   */
+  setValidator(validator: VideoQueryValidator): void {
+    this.validator = validator;
+  }
+
+  async resolve(query: VideoQuery): Promise<string[]> {
+    if (!query || typeof query !== 'object' || Array.isArray(query)) {
+      throw new InvalidArgumentError('query must be an object with a source', { field: 'query' });
+    }
+    if (!QUERY_SOURCES.includes(query.source)) {
+      throw new InvalidArgumentError(`query.source must be one of ${QUERY_SOURCES.join(', ')}`, { field: 'query.source' });
+    }
+
+    let result: PagedResult<any>;
+    switch (query.source) {
+      case 'search': {
+        const { source, ...params } = query;
+        result = await this.videoService.searchVideos({ ...await this.prepare(source, params), type: 'video', enrich: false });
+        break;
+      }
+      case 'channelUploads': {
+        const { source, ...params } = query;
+        result = await this.channelService.listVideos({ ...await this.prepare(source, params), hydrate: false, enrich: false });
+        break;
+      }
+      case 'playlist': {
+        const { source, ...params } = query;
+        result = await this.playlistService.getPlaylistItems(await this.prepare(source, params));
+        break;
+      }
+    }
+
+    return [...new Set(result.items.map(resultVideoId).filter(Boolean))];
+  }
+
+  /**
+   * Apply the source's default page size, validate, and normalize URLs and
+   * handles to IDs (nested IDs are not seen by the registry's resolver)
+   */
+  private async prepare<T extends { maxResults?: number }>(source: VideoQuery['source'], params: T): Promise<T> {
+    const validated = this.validate(source, { ...params, maxResults: params.maxResults ?? DEFAULT_MAX_RESULTS[source] });
+    await this.idResolver.resolveArgs(validated);
+    return validated;
+  }
+
+  /**
+   * Run the validator, reporting fields relative to the query (query.maxResults)
+   */
+  private validate<T extends object>(source: VideoQuery['source'], params: T): T {
+    if (!this.validator) return params;
+
+    try {
+      return this.validator(source, params);
+    } catch (error) {
+      if (!(error instanceof InvalidArgumentError)) throw error;
+      const field = error.details.field;
+      throw new InvalidArgumentError(`Invalid query: ${error.message}`, {
+        ...error.details,
+        ...(typeof field === 'string' && { field: `query.${field}` })
+      });
+    }
+  }
+}
@@ -1,35 +1,19 @@
-import { google } from 'googleapis';
-import { VideoParams, SearchParams, TrendingParams, RelatedVideosParams } from '../types.js';
+import { VideoParams, VideoSearchParams, TrendingParams, RelatedVideosParams, PagedResult, BatchVideosParams, BatchVideoEntry, VideoEnrichment } from '../types.js';
+import { fetchPages, MAX_PAGE_SIZE } from './pagination.js';
+import { getYouTubeClientProvider, YouTubeClientProvider } from './youtube-client.js';
+import { chunk, mapWithConcurrency } from './concurrency.js';
+import { parseTimestamp } from './dates.js';
+import { resultVideoId, toEnrichment } from './enrich.js';
+import { InvalidArgumentError, NotFoundError, toServiceError } from '../errors.js';
+
+// search.list filters that YouTube rejects unless type is "video"
+const VIDEO_ONLY_SEARCH_FILTERS = ['videoDuration', 'videoDefinition', 'videoCaption', 'eventType'] as const;
 
 /**
  * Service for interacting with YouTube videos
  */
 export class VideoService {
-  private youtube;
-  private initialized = false;
-
-  constructor() {
-    // Don't initialize in constructor
-  }
-
-  /**
-   * Initialize the YouTube client only when needed
-   */
-  private initialize() {
-    if (this.initialized) return;
-    
-    const apiKey = process.env.YOUTUBE_API_KEY;
-    if (!apiKey) {
-      throw new Error('YOUTUBE_API_KEY environment variable is not set.');
-    }
-
-    this.youtube = google.youtube({
-      version: 'v3',
-      auth: apiKey
-    });
-    
-    this.initialized = true;
-  }
+  constructor(private client: YouTubeClientProvider = getYouTubeClientProvider()) {}
 
   /**
    * Get detailed information about a YouTube video
@@ -39,39 +23,121 @@ export class VideoService {
     parts = ['snippet', 'contentDetails', 'statistics'] 
   }: VideoParams): Promise<any> {
     try {
-      this.initialize();
-      
-      const response = await this.youtube.videos.list({
+      const response = await this.client.call('videos.list', (youtube, options) => youtube.videos.list({
         part: parts,
         id: [videoId]
-      });
+      }, options));
       
-      return response.data.items?.[0] || null;
+      const video = response.data.items?.[0];
+      if (!video) {
+        throw new NotFoundError(`Video not found: ${videoId}`, { videoId });
+      }
+
+      return video;
     } catch (error) {
-      throw new Error(`Failed to get video: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to get video');
+    }
+  }
+
+  /**
+   * Get details for many videos at once
+   * IDs are de-duplicated and fetched 50 per videos.list call with bounded concurrency
+   */
+  async getVideos({
+    videoIds,
+    parts = ['snippet', 'contentDetails', 'statistics'],
+    concurrency = 4
+  }: BatchVideosParams): Promise<{
+    videos: Record<string, BatchVideoEntry>;
+    requested: number;
+    found: number;
+    notFound: string[];
+  }> {
+    try {
+      const uniqueIds = [...new Set(videoIds.map(id => id.trim()).filter(Boolean))];
+      const pages = await mapWithConcurrency(chunk(uniqueIds, MAX_PAGE_SIZE), concurrency, async ids => {
+        const response = await this.client.call('videos.list', (youtube, options) => youtube.videos.list({
+          part: parts,
+          id: ids,
+          maxResults: MAX_PAGE_SIZE
+        }, options));
+        return response.data.items || [];
+      });
+
+      const byId = new Map<string, any>();
+      for (const item of pages.flat()) {
+        byId.set(item.id, item);
+      }
+
+      const videos: Record<string, BatchVideoEntry> = {};
+      const notFound: string[] = [];
+      for (const id of uniqueIds) {
+        const video = byId.get(id);
+        if (video) {
+          videos[id] = { found: true, video };
+        } else {
+          videos[id] = { found: false, reason: 'notFoundOrPrivate' };
+          notFound.push(id);
+        }
+      }
+
+      return {
+        videos,
+        requested: uniqueIds.length,
+        found: uniqueIds.length - notFound.length,
+        notFound
+      };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to get videos');
     }
   }
 
   /**
    * Search for videos on YouTube
+   * Supports the search.list filters; video-only filters require type "video" (the default)
    */
   async searchVideos({ 
     query, 
-    maxResults = 10 
-  }: SearchParams): Promise<any[]> {
+    maxResults = 10,
+    pageToken,
+    type = 'video',
+    publishedAfter,
+    publishedBefore,
+    regionCode,
+    enrich = false,
+    ...filters
+  }: VideoSearchParams): Promise<PagedResult<any>> {
     try {
-      this.initialize();
-      
-      const response = await this.youtube.search.list({
-        part: ['snippet'],
-        q: query,
-        maxResults,
-        type: ['video']
-      });
-      
-      return response.data.items || [];
+      const videoOnly = VIDEO_ONLY_SEARCH_FILTERS.filter(field => filters[field] !== undefined);
+      if (type !== 'video' && videoOnly.length > 0) {
+        throw new InvalidArgumentError(`${videoOnly.join(', ')} can only be used with type "video"`, { field: videoOnly[0] });
+      }
+      if (regionCode !== undefined && !/^[A-Za-z]{2}$/.test(regionCode)) {
+        throw new InvalidArgumentError('Invalid regionCode: expected an ISO 3166-1 alpha-2 country code such as US', { field: 'regionCode', expected: 'country code' });
+      }
+
+      // search.list wants RFC 3339, so normalize anything Date can parse
+      const after = parseTimestamp(publishedAfter, 'publishedAfter');
+      const before = parseTimestamp(publishedBefore, 'publishedBefore');
+
+      const result = await fetchPages(async (token, pageSize) => {
+        const response = await this.client.call('search.list', (youtube, options) => youtube.search.list({
+          part: ['snippet'],
+          q: query,
+          maxResults: pageSize,
+          pageToken: token,
+          type: [type],
+          ...filters,
+          ...(regionCode && { regionCode: regionCode.toUpperCase() }),
+          ...(after !== undefined && { publishedAfter: new Date(after).toISOString() }),
+          ...(before !== undefined && { publishedBefore: new Date(before).toISOString() })
+        }, options));
+        return response.data;
+      }, maxResults, pageToken);
+
+      return enrich ? { ...result, items: await this.enrichResults(result.items) } : result;
     } catch (error) {
-      throw new Error(`Failed to search videos: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to search videos');
     }
   }
 
@@ -82,16 +148,19 @@ export class VideoService {
     videoId 
   }: { videoId: string }): Promise<any> {
     try {
-      this.initialize();
-      
-      const response = await this.youtube.videos.list({
+      const response = await this.client.call('videos.list', (youtube, options) => youtube.videos.list({
         part: ['statistics'],
         id: [videoId]
-      });
+      }, options));
       
-      return response.data.items?.[0]?.statistics || null;
+      const video = response.data.items?.[0];
+      if (!video) {
+        throw new NotFoundError(`Video not found: ${videoId}`, { videoId });
+      }
+
+      return video.statistics || null;
     } catch (error) {
-      throw new Error(`Failed to get video stats: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to get video stats');
     }
   }
 
@@ -104,8 +173,6 @@ export class VideoService {
     videoCategoryId = ''
   }: TrendingParams): Promise<any[]> {
     try {
-      this.initialize();
-      
       const params: any = {
         part: ['snippet', 'contentDetails', 'statistics'],
         chart: 'mostPopular',
@@ -117,11 +184,11 @@ export class VideoService {
         params.videoCategoryId = videoCategoryId;
       }
       
-      const response = await this.youtube.videos.list(params);
+      const response = await this.client.call('videos.list', (youtube, options) => youtube.videos.list(params, options));
       
       return response.data.items || [];
     } catch (error) {
-      throw new Error(`Failed to get trending videos: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to get trending videos');
     }
   }
 
@@ -130,21 +197,41 @@ export class VideoService {
    */
   async getRelatedVideos({ 
     videoId, 
-    maxResults = 10 
+    maxResults = 10,
+    enrich = false
   }: RelatedVideosParams): Promise<any[]> {
     try {
-      this.initialize();
-      
-      const response = await this.youtube.search.list({
+      // relatedToVideoId is no longer in the published typings
+      const params: any = {
         part: ['snippet'],
         relatedToVideoId: videoId,
         maxResults,
         type: ['video']
-      });
-      
-      return response.data.items || [];
+      };
+
+      const response = await this.client.call('search.list', (youtube, options) => youtube.search.list(params, options));
+      const items = response.data.items || [];
+
+      return enrich ? await this.enrichResults(items) : items;
     } catch (error) {
-      throw new Error(`Failed to get related videos: ${error instanceof Error ? error.message : String(error)}`);
+      throw toServiceError(error, 'Failed to get related videos');
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Merge parsed duration, view/like/comment counts and caption availability
+   * into search results, playlist items or video resources
+   * Uses one videos.list call per 50 IDs; results without a video (channels,
+   * playlists, removed videos) are returned unchanged
+   */
+  async enrichResults<T>(items: T[]): Promise<Array<T | (T & VideoEnrichment)>> {
+    const videoIds = items.map(resultVideoId).filter(Boolean);
+    if (videoIds.length === 0) return items;
+
+    const { videos } = await this.getVideos({ videoIds, parts: ['contentDetails', 'statistics'] });
+    return items.map(item => {
+      const entry = videos[resultVideoId(item)];
+      return entry?.found ? { ...item, ...toEnrichment(entry.video) } : item;
+    });
+  }
+}
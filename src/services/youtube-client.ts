@@ -0,0 +1,221 @@
+import { google, youtube_v3 } from 'googleapis';
+import { RateLimitConfig, RetryConfig } from '../config/TransportConfig.js';
+import { getQuotaLedger, QuotaBudgetError, QuotaEndpoint, QuotaLedger } from './quota.js';
+import { isQuotaExceededError, isRetryableError } from './api-errors.js';
+import { ApiKeyHealth, ApiKeyPool } from './api-keys.js';
+import { NotConfiguredError } from '../errors.js';
+
+/**
+ * Per-request options passed through to googleapis method calls
+ */
+export interface RequestOptions {
+  timeout: number;
+}
+
+export type YouTubeRequest<T> = (youtube: youtube_v3.Youtube, options: RequestOptions) => Promise<T>;
+
+export interface YouTubeClientConfig {
+  retry: RetryConfig;
+  rateLimit: RateLimitConfig;
+}
+
+const DEFAULT_CLIENT_CONFIG: YouTubeClientConfig = {
+  retry: { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 10000, timeoutMs: 15000 },
+  rateLimit: { requestsPerSecond: 10, burst: 20 }
+};
+
+/**
+ * Clock and random source for rate limiting and backoff (replaced in tests)
+ */
+export interface ClientTiming {
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+  random: () => number;
+}
+
+const SYSTEM_TIMING: ClientTiming = {
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+  random: () => Math.random()
+};
+
+/**
+ * Reads are safe to repeat; inserts, updates and deletes may already have been
+ * applied when the response was lost
+ */
+function isReadEndpoint(endpoint: QuotaEndpoint): boolean {
+  return endpoint.endsWith('.list');
+}
+
+/**
+ * Token bucket for outgoing requests
+ * Waiters are served in arrival order by chaining on the previous acquire
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private config: RateLimitConfig, private timing: ClientTiming) {
+    this.tokens = config.burst;
+    this.lastRefill = timing.now();
+  }
+
+  acquire(): Promise<void> {
+    if (this.config.requestsPerSecond <= 0) return Promise.resolve();
+
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn;
+    return turn;
+  }
+
+  private async take(): Promise<void> {
+    const { requestsPerSecond, burst } = this.config;
+
+    for (;;) {
+      const now = this.timing.now();
+      this.tokens = Math.min(burst, this.tokens + ((now - this.lastRefill) / 1000) * requestsPerSecond);
+      this.lastRefill = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await this.timing.sleep(Math.ceil(((1 - this.tokens) / requestsPerSecond) * 1000));
+    }
+  }
+}
+
+/**
+ * Single entry point for YouTube Data API calls
+ *
+ * Every attempt waits for a rate-limit token and is charged against the quota
+ * ledger. Retryable failures (5xx, 429, transient 403 reasons, timeouts) of
+ * reads are retried with full-jitter exponential backoff. Writes are never
+ * retried: a timed-out insert may still have been applied, so the failure goes
+ * back to the caller. A quotaExceeded response parks the API key and repeats
+ * the call on the next key.
+ */
+export class YouTubeClientProvider {
+  private keyClients = new Map<string, youtube_v3.Youtube>();
+  private limiter: TokenBucket;
+
+  constructor(
+    private config: YouTubeClientConfig = DEFAULT_CLIENT_CONFIG,
+    private quota: QuotaLedger = getQuotaLedger(),
+    private keyPool: ApiKeyPool | null = null,
+    private timing: ClientTiming = SYSTEM_TIMING
+  ) {
+    this.limiter = new TokenBucket(config.rateLimit, timing);
+  }
+
+  /**
+   * Replace the retry and rate-limit policy (called once at startup)
+   */
+  configure(config: YouTubeClientConfig): void {
+    this.config = config;
+    this.limiter = new TokenBucket(config.rateLimit, this.timing);
+  }
+
+  /**
+   * Build a YouTube client for an API key or authenticated OAuth client
+   */
+  createClient(auth: any): youtube_v3.Youtube {
+    return google.youtube({ version: 'v3', auth });
+  }
+
+  private get keys(): ApiKeyPool {
+    if (!this.keyPool) {
+      this.keyPool = new ApiKeyPool();
+    }
+    return this.keyPool;
+  }
+
+  /**
+   * Per-key health for /health (keys are masked)
+   */
+  getKeyHealth(): ApiKeyHealth[] {
+    return this.keys.getHealth();
+  }
+
+  /**
+   * Next usable API key, throwing when none is configured or all are parked
+   */
+  private acquireKey(endpoint: QuotaEndpoint): string {
+    if (this.keys.size === 0) {
+      throw new NotConfiguredError('No YouTube API key configured. Set YOUTUBE_API_KEY, YOUTUBE_API_KEYS or YOUTUBE_API_KEYS_FILE.', { setting: 'YOUTUBE_API_KEY' });
+    }
+
+    const key = this.keys.acquire();
+    if (!key) {
+      const resetsAt = (this.keys.nextAvailableAt() || new Date()).toISOString();
+      throw new QuotaBudgetError(
+        `All ${this.keys.size} YouTube API key(s) have exceeded their daily quota. Resets at ${resetsAt}.`,
+        endpoint,
+        resetsAt
+      );
+    }
+    return key;
+  }
+
+  /**
+   * API-key client for read operations, one per key
+   */
+  private getClient(key: string): youtube_v3.Youtube {
+    let client = this.keyClients.get(key);
+    if (!client) {
+      client = this.createClient(key);
+      this.keyClients.set(key, client);
+    }
+    return client;
+  }
+
+  /**
+   * Run a request with rate limiting, quota accounting, timeout and retries
+   * Pass `youtube` to use a specific (e.g. OAuth) client instead of the API-key pool
+   */
+  async call<T>(endpoint: QuotaEndpoint, request: YouTubeRequest<T>, youtube?: youtube_v3.Youtube): Promise<T> {
+    const { timeoutMs } = this.config.retry;
+    const maxRetries = isReadEndpoint(endpoint) ? this.config.retry.maxRetries : 0;
+    let retries = 0;
+
+    for (;;) {
+      const key = youtube ? null : this.acquireKey(endpoint);
+      const client = youtube || this.getClient(key);
+
+      await this.limiter.acquire();
+      await this.quota.charge(endpoint);
+
+      try {
+        return await request(client, { timeout: timeoutMs });
+      } catch (error) {
+        if (key && isQuotaExceededError(error)) {
+          // Park the key; the next iteration picks another or throws if none are left
+          this.keys.markExhausted(key);
+          continue;
+        }
+        if (retries >= maxRetries || !isRetryableError(error)) {
+          throw error;
+        }
+        await this.timing.sleep(this.backoffDelay(retries++));
+      }
+    }
+  }
+
+  private backoffDelay(attempt: number): number {
+    const { baseDelayMs, maxDelayMs } = this.config.retry;
+    return this.timing.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  }
+}
+
+let sharedProvider: YouTubeClientProvider | null = null;
+
+/**
+ * Process-wide client provider shared by every service
+ */
+export function getYouTubeClientProvider(): YouTubeClientProvider {
+  if (!sharedProvider) {
+    sharedProvider = new YouTubeClientProvider();
+  }
+  return sharedProvider;
+}
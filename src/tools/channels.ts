@@ -0,0 +1,114 @@
+import { ToolDefinition, ToolServices } from './registry.js';
+
+/**
+ * Channel information and listing tools
+ */
+export function createChannelTools({ channelService }: ToolServices): ToolDefinition[] {
+  return [
+    {
+      name: 'channels_getChannel',
+      description: 'Get information about a YouTube channel',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          channelId: {
+            type: 'string',
+            description: 'The YouTube channel ID, @handle or channel URL (/channel/, /@, /c/, /user/)',
+          },
+        },
+        required: ['channelId'],
+      },
+      route: { method: 'GET', path: '/api/channels/:channelId' },
+      handler: args => channelService.getChannel(args),
+    },
+    {
+      name: 'channels_listVideos',
+      description: 'Get videos uploaded by a channel, newest first. Reads the channel uploads playlist (1 quota unit per 50 videos), so every upload is reachable.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          channelId: {
+            type: 'string',
+            description: 'The YouTube channel ID, @handle or channel URL (/channel/, /@, /c/, /user/)',
+          },
+          maxResults: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 5000,
+            description: 'Maximum number of results to return (up to 5000). Pages of 50 are fetched automatically.',
+          },
+          pageToken: {
+            type: 'string',
+            description: 'nextPageToken from a previous call, to continue where it stopped',
+          },
+          publishedAfter: {
+            type: 'string',
+            description: 'Only videos published at or after this ISO 8601 timestamp (e.g. 2024-01-01T00:00:00Z)',
+          },
+          publishedBefore: {
+            type: 'string',
+            description: 'Only videos published before this ISO 8601 timestamp',
+          },
+          order: {
+            type: 'string',
+            enum: ['newest', 'oldest', 'viewCount', 'title'],
+            description: 'Sort order (default newest). Other orders read every upload in range (1 unit per 50; narrow with publishedAfter) and do not page; viewCount implies hydrate.',
+          },
+          hydrate: {
+            type: 'boolean',
+            description: 'Return full video resources with duration and statistics (extra videos.list call per 50 videos) instead of playlist items',
+          },
+          enrich: {
+            type: 'boolean',
+            description: 'Merge durationSeconds, viewCount, likeCount, commentCount and hasCaptions into each result (one extra videos.list call per 50 results)',
+          },
+        },
+        required: ['channelId'],
+      },
+      route: { method: 'GET', path: '/api/channels/:channelId/videos' },
+      handler: args => channelService.listVideos(args),
+    },
+    {
+      name: 'channels_getPlaylists',
+      description: 'Get the public playlists of a YouTube channel',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          channelId: {
+            type: 'string',
+            description: 'The YouTube channel ID, @handle or channel URL (/channel/, /@, /c/, /user/)',
+          },
+          maxResults: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 1000,
+            description: 'Maximum number of results to return (up to 1000). Pages of 50 are fetched automatically.',
+          },
+          pageToken: {
+            type: 'string',
+            description: 'nextPageToken from a previous call, to continue where it stopped',
+          },
+        },
+        required: ['channelId'],
+      },
+      route: { method: 'GET', path: '/api/channels/:channelId/playlists' },
+      handler: args => channelService.getPlaylists(args),
+    },
+    {
+      name: 'channels_getStatistics',
+      description: 'Get subscriber, view and video counts for a YouTube channel',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          channelId: {
+            type: 'string',
+            description: 'The YouTube channel ID, @handle or channel URL (/channel/, /@, /c/, /user/)',
+          },
+        },
+        required: ['channelId'],
+      },
+      route: { method: 'GET', path: '/api/channels/:channelId/statistics' },
+      handler: args => channelService.getStatistics(args),
+    },
+  ];
+}
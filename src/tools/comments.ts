@@ -0,0 +1,199 @@
+import { JsonSchemaProperty, ToolDefinition, ToolServices } from './registry.js';
+
+/**
+ * Arguments shared by the comment listing and search tools
+ */
+const COMMENT_LIST_PROPERTIES: Record<string, JsonSchemaProperty> = {
+  videoId: {
+    type: 'string',
+    description: 'The YouTube video ID or URL (or pass channelId instead)',
+  },
+  channelId: {
+    type: 'string',
+    description: 'Channel ID, @handle or URL: comments across all of the channel\'s videos (instead of videoId)',
+  },
+  order: {
+    type: 'string',
+    enum: ['time', 'relevance'],
+    description: 'time: newest first; relevance: YouTube\'s top comments',
+  },
+  maxResults: {
+    type: 'integer',
+    minimum: 1,
+    maximum: 2000,
+    description: 'Maximum number of threads to return (up to 2000). Pages of 100 are fetched automatically.',
+  },
+  pageToken: {
+    type: 'string',
+    description: 'nextPageToken from a previous call, to continue where it stopped',
+  },
+};
+
+const DRY_RUN_PROPERTY: JsonSchemaProperty = {
+  type: 'boolean',
+  description: 'Return the request that would be sent (and the comments it would affect) without changing anything',
+};
+
+const COMMENT_IDS_PROPERTY: JsonSchemaProperty = {
+  type: 'array',
+  items: { type: 'string' },
+  description: 'Comment IDs (a thread ID is the ID of its top-level comment)',
+};
+
+/**
+ * Comment read (API key) and write (OAuth) tools
+ */
+export function createCommentTools({ commentService }: ToolServices): ToolDefinition[] {
+  return [
+    {
+      name: 'comments_listThreads',
+      description: 'List comment threads (top-level comment with replies) on a video or across a channel, with author, text, likes and publish time. Videos with comments turned off return commentsDisabled: true.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          ...COMMENT_LIST_PROPERTIES,
+          includeReplies: {
+            type: 'boolean',
+            description: 'Include the replies YouTube returns inline, up to 5 per thread (default true)',
+          },
+          allReplies: {
+            type: 'boolean',
+            description: 'Fetch every reply of each thread (one comments.list call per thread with more than 5 replies)',
+          },
+        },
+      },
+      route: { method: 'GET', path: '/api/videos/:videoId/comments' },
+      handler: args => commentService.listCommentThreads(args),
+    },
+    {
+      name: 'comments_getThread',
+      description: 'Get a single comment thread by ID with its replies',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          threadId: {
+            type: 'string',
+            description: 'Comment thread ID (the id of a comments_listThreads result)',
+          },
+          allReplies: {
+            type: 'boolean',
+            description: 'Fetch every reply instead of the first 5',
+          },
+        },
+        required: ['threadId'],
+      },
+      route: { method: 'GET', path: '/api/comments/:threadId' },
+      handler: args => commentService.getCommentThread(args),
+    },
+    {
+      name: 'comments_search',
+      description: 'Search the comments on a video or channel for text; returns matching threads (relevance order by default)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Text to search for',
+          },
+          ...COMMENT_LIST_PROPERTIES,
+        },
+        required: ['query'],
+      },
+      route: { method: 'GET', path: '/api/comments/search' },
+      handler: args => commentService.searchComments(args),
+    },
+    {
+      name: 'comments_post',
+      description: 'Post a top-level comment on a video as the authenticated account (requires OAuth)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          videoId: {
+            type: 'string',
+            description: 'The YouTube video ID or URL to comment on',
+          },
+          text: {
+            type: 'string',
+            description: 'Comment text (up to 10000 characters)',
+          },
+          dryRun: DRY_RUN_PROPERTY,
+        },
+        required: ['videoId', 'text'],
+      },
+      route: { method: 'POST', path: '/api/videos/:videoId/comments' },
+      handler: args => commentService.postComment(args),
+    },
+    {
+      name: 'comments_reply',
+      description: 'Reply to a comment thread as the authenticated account (requires OAuth)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          parentId: {
+            type: 'string',
+            description: 'ID of the thread (its top-level comment) to reply to',
+          },
+          text: {
+            type: 'string',
+            description: 'Reply text (up to 10000 characters)',
+          },
+          dryRun: DRY_RUN_PROPERTY,
+        },
+        required: ['parentId', 'text'],
+      },
+      route: { method: 'POST', path: '/api/comments/:parentId/replies' },
+      handler: args => commentService.replyToComment(args),
+    },
+    {
+      name: 'comments_setModerationStatus',
+      description: 'Publish, hold for review or reject comments on the authenticated channel\'s videos (requires OAuth)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          commentIds: COMMENT_IDS_PROPERTY,
+          moderationStatus: {
+            type: 'string',
+            enum: ['published', 'heldForReview', 'rejected'],
+            description: 'New moderation status',
+          },
+          banAuthor: {
+            type: 'boolean',
+            description: 'With rejected: also reject the author\'s future comments on the channel',
+          },
+          dryRun: DRY_RUN_PROPERTY,
+        },
+        required: ['commentIds', 'moderationStatus'],
+      },
+      route: { method: 'POST', path: '/api/comments/moderation' },
+      handler: args => commentService.setModerationStatus(args),
+    },
+    {
+      name: 'comments_markAsSpam',
+      description: 'Report comments as spam (requires OAuth)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          commentIds: COMMENT_IDS_PROPERTY,
+          dryRun: DRY_RUN_PROPERTY,
+        },
+        required: ['commentIds'],
+      },
+      route: { method: 'POST', path: '/api/comments/spam' },
+      handler: args => commentService.markAsSpam(args),
+    },
+    {
+      name: 'comments_delete',
+      description: 'Delete comments written by the authenticated account (requires OAuth; 50 units per comment)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          commentIds: COMMENT_IDS_PROPERTY,
+          dryRun: DRY_RUN_PROPERTY,
+        },
+        required: ['commentIds'],
+      },
+      route: { method: 'DELETE', path: '/api/comments' },
+      handler: args => commentService.deleteComments(args),
+    },
+  ];
+}
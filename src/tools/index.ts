@@ -0,0 +1,47 @@
+/**
+ * Tool registry
+ *
+ * Every tool is declared once (name, schema, handler, REST route) and both the
+ * MCP ListTools/CallTool handlers and the HttpApiServer routes are generated
+ * from the registry.
+ */
+
+import { ToolRegistry, ToolServices, createToolServices } from './registry.js';
+import { validateArguments } from './validation.js';
+import { createVideoTools } from './videos.js';
+import { createTranscriptTools } from './transcripts.js';
+import { createChannelTools } from './channels.js';
+import { createPlaylistTools } from './playlists.js';
+import { createCommentTools } from './comments.js';
+import { createOAuthTools } from './oauth.js';
+import { createQuotaTools } from './quota.js';
+
+export { ToolRegistry, createToolServices } from './registry.js';
+export { ToolArgumentError, validateArguments } from './validation.js';
+export type { ToolDefinition, ToolServices, ToolInputSchema, ToolRoute, RouteMatch, JsonSchemaProperty } from './registry.js';
+
+// Tool whose arguments a playlists_apply query source takes
+const QUERY_SOURCE_TOOLS = {
+  search: 'videos_searchVideos',
+  channelUploads: 'channels_listVideos',
+  playlist: 'playlists_getPlaylistItems',
+} as const;
+
+export function createToolRegistry(services: ToolServices = createToolServices()): ToolRegistry {
+  const registry = new ToolRegistry(services, [
+    ...createVideoTools(services),
+    ...createTranscriptTools(services),
+    ...createChannelTools(services),
+    ...createPlaylistTools(services),
+    ...createCommentTools(services),
+    ...createOAuthTools(services),
+    ...createQuotaTools(services),
+  ]);
+
+  // The source tool's schema describes the same fields as the query's params type
+  services.videoQueryResolver.setValidator(<T extends object>(source, params: T) => {
+    const { view: _view, fields: _fields, ...validated } = validateArguments(registry.get(QUERY_SOURCE_TOOLS[source]).inputSchema, params);
+    return validated as T;
+  });
+  return registry;
+}
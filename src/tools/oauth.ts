@@ -0,0 +1,19 @@
+import { ToolDefinition, ToolServices } from './registry.js';
+
+/**
+ * OAuth status for write operations
+ */
+export function createOAuthTools({ playlistService }: ToolServices): ToolDefinition[] {
+  return [
+    {
+      name: 'oauth_getStatus',
+      description: 'Check whether OAuth is authenticated for YouTube write operations; returns an authorization URL if not',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+      route: { method: 'GET', path: '/api/oauth/status' },
+      handler: () => playlistService.getOAuthStatus(),
+    },
+  ];
+}
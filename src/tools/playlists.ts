@@ -0,0 +1,389 @@
+import { JsonSchemaProperty, ToolDefinition, ToolServices } from './registry.js';
+
+const PRIVACY_STATUS_PROPERTY: JsonSchemaProperty = {
+  type: 'string',
+  enum: ['private', 'public', 'unlisted'],
+  description: 'Who can see the playlist',
+};
+
+/**
+ * Arguments shared by the bulk playlist tools
+ */
+const BULK_PROPERTIES: Record<string, JsonSchemaProperty> = {
+  playlistId: {
+    type: 'string',
+    description: 'The YouTube playlist ID or a URL with list=',
+  },
+  videoIds: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'YouTube video IDs or URLs (up to 200)',
+  },
+  idempotencyKey: {
+    type: 'string',
+    description: 'Any unique string for this request. Retrying with the same key replays completed items instead of writing them again (REST: Idempotency-Key header also accepted).',
+  },
+};
+
+/**
+ * Playlist read (API key) and write (OAuth) tools
+ */
+export function createPlaylistTools({ playlistService, playlistBulkService, playlistLeaseService }: ToolServices): ToolDefinition[] {
+  return [
+    {
+      name: 'playlists_getPlaylist',
+      description: 'Get information about a YouTube playlist',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          playlistId: {
+            type: 'string',
+            description: 'The YouTube playlist ID or a URL with list=',
+          },
+        },
+        required: ['playlistId'],
+      },
+      route: { method: 'GET', path: '/api/playlist/:playlistId' },
+      handler: args => playlistService.getPlaylist(args),
+    },
+    {
+      name: 'playlists_getPlaylistItems',
+      description: 'Get videos in a YouTube playlist',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          playlistId: {
+            type: 'string',
+            description: 'The YouTube playlist ID or a URL with list=',
+          },
+          maxResults: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 5000,
+            description: 'Maximum number of results to return (up to 5000). Pages of 50 are fetched automatically.',
+          },
+          pageToken: {
+            type: 'string',
+            description: 'nextPageToken from a previous call, to continue where it stopped',
+          },
+        },
+        required: ['playlistId'],
+      },
+      route: { method: 'GET', path: '/api/playlist/:playlistId/items' },
+      handler: args => playlistService.getPlaylistItems(args),
+    },
+    {
+      name: 'playlists_searchPlaylists',
+      description: 'Search for playlists on YouTube',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Search query',
+          },
+          maxResults: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 500,
+            description: 'Maximum number of results to return (up to 500). Pages of 50 are fetched automatically.',
+          },
+          pageToken: {
+            type: 'string',
+            description: 'nextPageToken from a previous call, to continue where it stopped',
+          },
+        },
+        required: ['query'],
+      },
+      route: { method: 'GET', path: '/api/playlist/search' },
+      handler: args => playlistService.searchPlaylists(args),
+    },
+    {
+      name: 'playlists_addVideo',
+      description: 'Add a video to a playlist (requires OAuth)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          playlistId: {
+            type: 'string',
+            description: 'The YouTube playlist ID or a URL with list=',
+          },
+          videoId: {
+            type: 'string',
+            description: 'The YouTube video ID or URL to add',
+          },
+        },
+        required: ['playlistId', 'videoId'],
+      },
+      route: { method: 'POST', path: '/api/playlist/add-video' },
+      handler: async ({ playlistId, videoId }) => {
+        const playlistItemId = await playlistService.addVideoToPlaylist(playlistId, videoId);
+        return { success: true, playlistItemId, playlistId, videoId };
+      },
+    },
+    {
+      name: 'playlists_removeVideo',
+      description: 'Remove an item from a playlist (requires OAuth)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          playlistItemId: {
+            type: 'string',
+            description: 'The playlist item ID (not the video ID), as returned by playlists_getPlaylistItems',
+          },
+        },
+        required: ['playlistItemId'],
+      },
+      route: { method: 'DELETE', path: '/api/playlist/remove-video' },
+      handler: async ({ playlistItemId }) => {
+        const removed = await playlistService.removeVideoFromPlaylist(playlistItemId);
+        return { success: true, removed, playlistItemId };
+      },
+    },
+    {
+      name: 'playlists_create',
+      description: 'Create a playlist on the authenticated channel (requires OAuth)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          title: {
+            type: 'string',
+            description: 'Playlist title',
+          },
+          description: {
+            type: 'string',
+            description: 'Playlist description',
+          },
+          privacyStatus: {
+            ...PRIVACY_STATUS_PROPERTY,
+            description: 'Who can see the playlist (default private)',
+          },
+        },
+        required: ['title'],
+      },
+      route: { method: 'POST', path: '/api/playlist/create' },
+      handler: args => playlistService.createPlaylist(args),
+    },
+    {
+      name: 'playlists_update',
+      description: 'Change the title, description or privacy of a playlist; omitted fields are left as they are (requires OAuth)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          playlistId: {
+            type: 'string',
+            description: 'The YouTube playlist ID or a URL with list=',
+          },
+          title: {
+            type: 'string',
+            description: 'New title',
+          },
+          description: {
+            type: 'string',
+            description: 'New description',
+          },
+          privacyStatus: PRIVACY_STATUS_PROPERTY,
+        },
+        required: ['playlistId'],
+      },
+      route: { method: 'PATCH', path: '/api/playlist/:playlistId' },
+      handler: args => playlistService.updatePlaylist(args),
+    },
+    {
+      name: 'playlists_delete',
+      description: 'Delete a playlist owned by the authenticated channel (requires OAuth)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          playlistId: {
+            type: 'string',
+            description: 'The YouTube playlist ID or a URL with list=',
+          },
+        },
+        required: ['playlistId'],
+      },
+      route: { method: 'DELETE', path: '/api/playlist/:playlistId' },
+      handler: async ({ playlistId }) => {
+        const deleted = await playlistService.deletePlaylist(playlistId);
+        return { success: true, deleted, playlistId };
+      },
+    },
+    {
+      name: 'playlists_moveItem',
+      description: 'Move a playlist item to a new position (requires OAuth)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          playlistItemId: {
+            type: 'string',
+            description: 'The playlist item ID (not the video ID), as returned by playlists_getPlaylistItems',
+          },
+          position: {
+            type: 'integer',
+            minimum: 0,
+            description: 'New zero-based position in the playlist',
+          },
+        },
+        required: ['playlistItemId', 'position'],
+      },
+      route: { method: 'POST', path: '/api/playlist/move-item' },
+      handler: args => playlistService.movePlaylistItem(args),
+    },
+    {
+      name: 'playlists_listMine',
+      description: 'List playlists owned by the authenticated channel, including private ones (requires OAuth)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          maxResults: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 1000,
+            description: 'Maximum number of results to return (up to 1000). Pages of 50 are fetched automatically.',
+          },
+          pageToken: {
+            type: 'string',
+            description: 'nextPageToken from a previous call, to continue where it stopped',
+          },
+        },
+      },
+      route: { method: 'GET', path: '/api/playlist/mine' },
+      handler: args => playlistService.listMyPlaylists(args),
+    },
+    {
+      name: 'playlists_bulkAdd',
+      description: 'Add many videos to a playlist, skipping ones already in it; returns a per-video report (requires OAuth)',
+      inputSchema: {
+        type: 'object',
+        properties: BULK_PROPERTIES,
+        required: ['playlistId', 'videoIds'],
+      },
+      route: { method: 'POST', path: '/api/playlist/bulk-add' },
+      handler: args => playlistBulkService.addVideos(args),
+    },
+    {
+      name: 'playlists_bulkRemove',
+      description: 'Remove many videos (every occurrence) from a playlist; returns a per-video report (requires OAuth)',
+      inputSchema: {
+        type: 'object',
+        properties: BULK_PROPERTIES,
+        required: ['playlistId', 'videoIds'],
+      },
+      route: { method: 'POST', path: '/api/playlist/bulk-remove' },
+      handler: args => playlistBulkService.removeVideos(args),
+    },
+    {
+      name: 'playlists_sync',
+      description: 'Make a playlist contain the given videos: add missing ones and remove the rest; returns a per-video report (requires OAuth)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          ...BULK_PROPERTIES,
+          removeExtra: {
+            type: 'boolean',
+            description: 'Remove videos that are not in videoIds (default true)',
+          },
+        },
+        required: ['playlistId', 'videoIds'],
+      },
+      route: { method: 'POST', path: '/api/playlist/sync' },
+      handler: args => playlistBulkService.syncVideos(args),
+    },
+    {
+      name: 'playlists_apply',
+      description: 'Make a playlist match a desired list of videos (given directly or as a search, channel-uploads or playlist query): insert missing videos, delete extras and reorder. plan: true returns the diff without changing anything (requires OAuth to apply).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          playlistId: BULK_PROPERTIES.playlistId,
+          videoIds: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Desired videos in playlist order (IDs or URLs, up to 5000)',
+          },
+          query: {
+            type: 'object',
+            description: 'Query whose results are the desired videos, in result order: {"source": "search", "query": "...", ...videos_searchVideos filters}, {"source": "channelUploads", "channelId": "...", ...channels_listVideos options} or {"source": "playlist", "playlistId": "..."}. Set maxResults to control how many (channelUploads and playlist default to 5000; search requires it when removeExtra is true).',
+          },
+          savedQuery: {
+            type: 'string',
+            description: 'Name of a query defined in the YOUTUBE_SAVED_QUERIES_FILE JSON file',
+          },
+          removeExtra: {
+            type: 'boolean',
+            description: 'Delete videos that are not desired (default true); repeated occurrences of a desired video are always deleted',
+          },
+          reorder: {
+            type: 'boolean',
+            description: 'Move items to match the desired order (default true)',
+          },
+          plan: {
+            type: 'boolean',
+            description: 'Only compute and return the inserts, deletes and moves',
+          },
+          idempotencyKey: BULK_PROPERTIES.idempotencyKey,
+        },
+        required: ['playlistId'],
+      },
+      route: { method: 'POST', path: '/api/playlist/apply' },
+      handler: args => playlistBulkService.applyDesiredState(args),
+    },
+    {
+      name: 'playlists_claim',
+      description: 'Claim the next playlist item no other worker holds, for work-queue processing. Returns a lease (leaseId, expiresAt, videoId) or lease: null when none are free. Finish with playlists_ack or give back with playlists_nack.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          playlistId: {
+            type: 'string',
+            description: 'The YouTube playlist ID or a URL with list=',
+          },
+          leaseSeconds: {
+            type: 'integer',
+            minimum: 1,
+            description: 'How long the claim lasts before the item returns to the pool (default 600)',
+          },
+          worker: {
+            type: 'string',
+            description: 'Label of the claiming worker, echoed in the lease',
+          },
+        },
+        required: ['playlistId'],
+      },
+      route: { method: 'POST', path: '/api/playlist/claim' },
+      handler: args => playlistLeaseService.claim(args),
+    },
+    {
+      name: 'playlists_ack',
+      description: 'Complete a claimed item: remove it from the playlist and end the lease (requires OAuth)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          leaseId: {
+            type: 'string',
+            description: 'leaseId returned by playlists_claim',
+          },
+        },
+        required: ['leaseId'],
+      },
+      route: { method: 'POST', path: '/api/playlist/ack' },
+      handler: args => playlistLeaseService.ack(args),
+    },
+    {
+      name: 'playlists_nack',
+      description: 'Release a claimed item without removing it, so it can be claimed again',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          leaseId: {
+            type: 'string',
+            description: 'leaseId returned by playlists_claim',
+          },
+        },
+        required: ['leaseId'],
+      },
+      route: { method: 'POST', path: '/api/playlist/nack' },
+      handler: args => playlistLeaseService.nack(args),
+    },
+  ];
+}
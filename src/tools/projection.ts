@@ -0,0 +1,197 @@
+import { JsonSchemaProperty } from './registry.js';
+import { parseIsoDuration } from '../services/enrich.js';
+
+export type ResponseView = 'compact' | 'full';
+
+/**
+ * Response-shaping arguments added to every tool
+ */
+export const RESPONSE_PROPERTIES: Record<string, JsonSchemaProperty> = {
+  view: {
+    type: 'string',
+    enum: ['compact', 'full'],
+    description: 'compact flattens YouTube resources to their useful fields, drops etags and extra thumbnails, and converts durations to seconds. full returns raw API objects. Defaults to compact for MCP calls and full for REST routes.',
+  },
+  fields: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Keep only these fields on each resource (dot paths allowed, e.g. "title,viewCount" compact or "snippet.tags" full). id is always kept.',
+  },
+};
+
+// Fields merged into results by enrich: true, carried through compact projection
+const ENRICHMENT_FIELDS = ['durationSeconds', 'viewCount', 'likeCount', 'commentCount', 'hasCaptions'];
+
+function bestThumbnail(thumbnails: any): string | undefined {
+  return (thumbnails?.high || thumbnails?.medium || thumbnails?.default)?.url;
+}
+
+function count(value: unknown): number | undefined {
+  return value === undefined || value === null ? undefined : Number(value);
+}
+
+/**
+ * Drop undefined values so compact objects only list what YouTube returned
+ */
+function defined<T extends Record<string, unknown>>(object: T): Partial<T> {
+  return Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function enrichment(resource: any): Record<string, unknown> {
+  return Object.fromEntries(ENRICHMENT_FIELDS.filter(field => field in resource).map(field => [field, resource[field]]));
+}
+
+function compactComment({ id, snippet }: any): Record<string, unknown> {
+  return defined({
+    id,
+    author: snippet?.authorDisplayName,
+    authorChannelId: snippet?.authorChannelId?.value,
+    text: snippet?.textDisplay ?? snippet?.textOriginal,
+    likeCount: snippet?.likeCount,
+    publishedAt: snippet?.publishedAt,
+    updatedAt: snippet?.updatedAt !== snippet?.publishedAt ? snippet?.updatedAt : undefined,
+    parentId: snippet?.parentId,
+  });
+}
+
+/**
+ * Compact projection per YouTube resource kind
+ */
+const COMPACT_PROJECTIONS: Record<string, (resource: any) => Record<string, unknown>> = {
+  'youtube#video': ({ id, snippet, contentDetails, statistics, status, liveStreamingDetails }) => defined({
+    id,
+    title: snippet?.title,
+    description: snippet?.description,
+    channelId: snippet?.channelId,
+    channelTitle: snippet?.channelTitle,
+    publishedAt: snippet?.publishedAt,
+    durationSeconds: contentDetails ? parseIsoDuration(contentDetails.duration) ?? undefined : undefined,
+    definition: contentDetails?.definition,
+    hasCaptions: contentDetails ? contentDetails.caption === 'true' : undefined,
+    viewCount: count(statistics?.viewCount),
+    likeCount: count(statistics?.likeCount),
+    commentCount: count(statistics?.commentCount),
+    privacyStatus: status?.privacyStatus,
+    liveBroadcastContent: snippet?.liveBroadcastContent !== 'none' ? snippet?.liveBroadcastContent : undefined,
+    scheduledStartTime: liveStreamingDetails?.scheduledStartTime,
+    thumbnail: bestThumbnail(snippet?.thumbnails),
+  }),
+  'youtube#channel': ({ id, snippet, statistics, contentDetails }) => defined({
+    id,
+    title: snippet?.title,
+    description: snippet?.description,
+    customUrl: snippet?.customUrl,
+    country: snippet?.country,
+    publishedAt: snippet?.publishedAt,
+    subscriberCount: statistics?.hiddenSubscriberCount ? undefined : count(statistics?.subscriberCount),
+    videoCount: count(statistics?.videoCount),
+    viewCount: count(statistics?.viewCount),
+    uploadsPlaylistId: contentDetails?.relatedPlaylists?.uploads,
+    thumbnail: bestThumbnail(snippet?.thumbnails),
+  }),
+  'youtube#playlist': ({ id, snippet, contentDetails, status }) => defined({
+    id,
+    title: snippet?.title,
+    description: snippet?.description,
+    channelId: snippet?.channelId,
+    channelTitle: snippet?.channelTitle,
+    publishedAt: snippet?.publishedAt,
+    itemCount: contentDetails?.itemCount,
+    privacyStatus: status?.privacyStatus,
+    thumbnail: bestThumbnail(snippet?.thumbnails),
+  }),
+  'youtube#playlistItem': ({ id, snippet, contentDetails }) => defined({
+    id,
+    videoId: contentDetails?.videoId || snippet?.resourceId?.videoId,
+    title: snippet?.title,
+    position: snippet?.position,
+    videoOwnerChannelTitle: snippet?.videoOwnerChannelTitle,
+    videoPublishedAt: contentDetails?.videoPublishedAt,
+    addedAt: snippet?.publishedAt,
+    thumbnail: bestThumbnail(snippet?.thumbnails),
+  }),
+  'youtube#comment': compactComment,
+  'youtube#commentThread': ({ id, snippet, replies }) => defined({
+    ...compactComment(snippet?.topLevelComment || {}),
+    id,
+    videoId: snippet?.videoId,
+    replyCount: snippet?.totalReplyCount,
+    replies: replies?.comments?.map(compactComment),
+  }),
+  'youtube#searchResult': ({ id, snippet }) => defined({
+    type: id?.kind?.replace('youtube#', ''),
+    id: id?.videoId || id?.channelId || id?.playlistId,
+    title: snippet?.title,
+    description: snippet?.description,
+    channelId: snippet?.channelId,
+    channelTitle: snippet?.channelTitle,
+    publishedAt: snippet?.publishedAt,
+    liveBroadcastContent: snippet?.liveBroadcastContent !== 'none' ? snippet?.liveBroadcastContent : undefined,
+    thumbnail: bestThumbnail(snippet?.thumbnails),
+  }),
+};
+
+function isResource(value: any): boolean {
+  return typeof value?.kind === 'string' && value.kind.startsWith('youtube#');
+}
+
+function compactResource(resource: any): Record<string, unknown> {
+  const project = COMPACT_PROJECTIONS[resource.kind];
+  if (project) {
+    return { ...project(resource), ...enrichment(resource) };
+  }
+  const { kind: _kind, etag: _etag, ...rest } = resource;
+  return rest;
+}
+
+function getPath(object: any, path: string): unknown {
+  return path.split('.').reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), object);
+}
+
+function setPath(object: Record<string, any>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let target = object;
+  for (const key of keys.slice(0, -1)) {
+    target = target[key] ??= {};
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+function pickFields(object: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const path of ['id', ...fields]) {
+    const value = getPath(object, path);
+    if (value !== undefined) setPath(picked, path, value);
+  }
+  return picked;
+}
+
+/**
+ * Shape a tool result: project every YouTube resource (found by its `kind`)
+ * to the compact view and/or the requested fields, leaving wrappers such as
+ * `{ items, nextPageToken }` intact. Results without resources (transcripts,
+ * quota status) have `fields` applied at the top level instead.
+ */
+export function projectResult(result: unknown, view: ResponseView = 'full', fields?: string[]): unknown {
+  const selected = fields?.length ? fields : undefined;
+  if (view === 'full' && !selected) return result;
+
+  let foundResource = false;
+  const walk = (value: any): any => {
+    if (Array.isArray(value)) return value.map(walk);
+    if (!value || typeof value !== 'object') return value;
+
+    if (isResource(value)) {
+      foundResource = true;
+      const shaped = view === 'compact' ? compactResource(value) : value;
+      return selected ? pickFields(shaped, selected) : shaped;
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, walk(child)]));
+  };
+
+  const projected = walk(result);
+  if (!foundResource && selected && projected && typeof projected === 'object' && !Array.isArray(projected)) {
+    return pickFields(projected, selected);
+  }
+  return projected;
+}
@@ -0,0 +1,19 @@
+import { ToolDefinition, ToolServices } from './registry.js';
+
+/**
+ * YouTube Data API quota accounting
+ */
+export function createQuotaTools({ quotaLedger }: ToolServices): ToolDefinition[] {
+  return [
+    {
+      name: 'quota_getStatus',
+      description: 'Get YouTube Data API quota usage for the current day (resets at midnight Pacific): units used, remaining budget, per-endpoint breakdown and unit costs. search.list costs 100 units; most reads cost 1.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+      route: { method: 'GET', path: '/api/quota' },
+      handler: () => quotaLedger.getStatus(),
+    },
+  ];
+}
@@ -0,0 +1,203 @@
+import { VideoService } from '../services/video.js';
+import { TranscriptService } from '../services/transcript.js';
+import { PlaylistService } from '../services/playlist.js';
+import { ChannelService } from '../services/channel.js';
+import { CommentService } from '../services/comment.js';
+import { PlaylistBulkService } from '../services/playlist-bulk.js';
+import { VideoQueryResolver } from '../services/video-query.js';
+import { PlaylistLeaseService } from '../services/playlist-leases.js';
+import { QuotaLedger, getQuotaLedger } from '../services/quota.js';
+import { IdResolver } from '../services/id-resolver.js';
+import { validateArguments } from './validation.js';
+import { projectResult, ResponseView, RESPONSE_PROPERTIES } from './projection.js';
+import { InvalidArgumentError, NotFoundError } from '../errors.js';
+
+/**
+ * JSON schema subset used to describe tool arguments
+ */
+export interface JsonSchemaProperty {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: readonly string[];
+  items?: JsonSchemaProperty;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface ToolInputSchema {
+  type: 'object';
+  properties: Record<string, JsonSchemaProperty>;
+  required?: string[];
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * REST route for a tool
+ * Path segments starting with ":" become arguments of the same name
+ */
+export interface ToolRoute {
+  method: HttpMethod;
+  path: string;
+}
+
+/**
+ * A tool declared once and exposed over both MCP and REST
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+  handler: (args: any) => Promise<unknown>;
+  route?: ToolRoute;
+}
+
+/**
+ * Services shared by every tool (and the bespoke REST endpoints)
+ */
+export interface ToolServices {
+  videoService: VideoService;
+  transcriptService: TranscriptService;
+  playlistService: PlaylistService;
+  playlistBulkService: PlaylistBulkService;
+  playlistLeaseService: PlaylistLeaseService;
+  videoQueryResolver: VideoQueryResolver;
+  channelService: ChannelService;
+  commentService: CommentService;
+  quotaLedger: QuotaLedger;
+  idResolver: IdResolver;
+}
+
+export function createToolServices(): ToolServices {
+  const videoService = new VideoService();
+  const playlistService = new PlaylistService();
+  const channelService = new ChannelService(videoService);
+  const idResolver = new IdResolver();
+  const videoQueryResolver = new VideoQueryResolver(videoService, channelService, playlistService, idResolver);
+  return {
+    videoService,
+    transcriptService: new TranscriptService(),
+    playlistService,
+    playlistBulkService: new PlaylistBulkService(playlistService, videoQueryResolver),
+    playlistLeaseService: new PlaylistLeaseService(playlistService),
+    videoQueryResolver,
+    channelService,
+    commentService: new CommentService(),
+    quotaLedger: getQuotaLedger(),
+    idResolver
+  };
+}
+
+export interface RouteMatch {
+  tool: ToolDefinition;
+  params: Record<string, string>;
+}
+
+/**
+ * Percent-decode a path parameter; malformed escapes (e.g. "%E0%A4%A") are a client error
+ */
+function decodePathParam(name: string, value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new InvalidArgumentError(`Malformed percent-encoding in path parameter "${name}"`, { field: name });
+  }
+}
+
+/**
+ * Lookup table over tool definitions for the MCP and REST front ends
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  constructor(readonly services: ToolServices, tools: ToolDefinition[]) {
+    for (const tool of tools) {
+      if (this.tools.has(tool.name)) {
+        throw new Error(`Duplicate tool name: ${tool.name}`);
+      }
+      // Every tool accepts view/fields; they shape the result and never reach the handler
+      this.tools.set(tool.name, {
+        ...tool,
+        inputSchema: {
+          ...tool.inputSchema,
+          properties: { ...tool.inputSchema.properties, ...RESPONSE_PROPERTIES }
+        }
+      });
+    }
+  }
+
+  /**
+   * Tool listing in MCP ListTools shape
+   */
+  list(): Array<Pick<ToolDefinition, 'name' | 'description' | 'inputSchema'>> {
+    return [...this.tools.values()].map(({ name, description, inputSchema }) => ({
+      name,
+      description,
+      inputSchema
+    }));
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * Validate arguments against the tool's schema, normalize video/channel/playlist
+   * URLs and handles to IDs, invoke its handler, then project the result to the
+   * requested view (`defaultView` when the caller asked for none)
+   * Object results echo any rewritten IDs as `resolvedIds`
+   */
+  async call(name: string, args: unknown = {}, defaultView: ResponseView = 'full'): Promise<unknown> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new NotFoundError(`Unknown tool: ${name}`, { tool: name });
+    }
+
+    const { view, fields, ...validated } = validateArguments(tool.inputSchema, args);
+    const resolvedIds = await this.services.idResolver.resolveArgs(validated);
+    const result = projectResult(await tool.handler(validated), (view as ResponseView) ?? defaultView, fields as string[]);
+
+    if (resolvedIds && result && typeof result === 'object' && !Array.isArray(result)) {
+      return { ...result, resolvedIds };
+    }
+    return result;
+  }
+
+  /**
+   * Find the tool whose route matches a request
+   * Literal segments win over parameters, so /api/playlist/search is not
+   * swallowed by /api/playlist/:playlistId
+   */
+  matchRoute(method: string, pathname: string): RouteMatch | null {
+    const requestSegments = pathname.split('/').filter(Boolean);
+    let best: RouteMatch | null = null;
+    let bestParamCount = Infinity;
+
+    for (const tool of this.tools.values()) {
+      if (!tool.route || tool.route.method !== method) continue;
+
+      const routeSegments = tool.route.path.split('/').filter(Boolean);
+      if (routeSegments.length !== requestSegments.length) continue;
+
+      const params: Record<string, string> = {};
+      const matches = routeSegments.every((segment, index) => {
+        if (segment.startsWith(':')) {
+          params[segment.slice(1)] = requestSegments[index];
+          return true;
+        }
+        return segment === requestSegments[index];
+      });
+
+      const paramCount = Object.keys(params).length;
+      if (matches && paramCount < bestParamCount) {
+        best = { tool, params };
+        bestParamCount = paramCount;
+      }
+    }
+
+    if (!best) return null;
+    // Decoded only for the winning route, so a malformed segment cannot fail a route that does not match
+    const params = Object.fromEntries(Object.entries(best.params).map(([name, value]) => [name, decodePathParam(name, value)]));
+    return { tool: best.tool, params };
+  }
+}
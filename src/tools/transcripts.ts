@@ -0,0 +1,130 @@
+import { JsonSchemaProperty, ToolDefinition, ToolServices } from './registry.js';
+
+/**
+ * Shared argument schema for the transcript retrieval tools
+ */
+const TRANSCRIPT_PROPERTIES: Record<string, JsonSchemaProperty> = {
+  videoId: {
+    type: 'string',
+    description: 'The YouTube video ID or URL (required unless cursor is given)',
+  },
+  cursor: {
+    type: 'string',
+    description: 'Opaque metadata.nextCursor/prevCursor from a previous call. Carries the video, language and filters, so other arguments can be omitted.',
+  },
+  language: {
+    type: 'string',
+    description: 'Language code (default: en)',
+  },
+  startTime: {
+    type: 'string',
+    description: 'Start time in seconds or "MM:SS"/"HH:MM:SS". ⚠️ COMPATIBILITY ISSUE: Use startIndex instead for reliable results',
+  },
+  endTime: {
+    type: 'string',
+    description: 'End time in seconds or "MM:SS"/"HH:MM:SS". ⚠️ COMPATIBILITY ISSUE: Use maxSegments instead for reliable results',
+  },
+  lastMinutes: {
+    type: 'number',
+    minimum: 0,
+    description: '✅ RELIABLE: Get last N minutes (e.g., 30 for last 30 minutes)',
+  },
+  firstMinutes: {
+    type: 'number',
+    minimum: 0,
+    description: '✅ RELIABLE: Get first N minutes (e.g., 120 for first 2 hours)',
+  },
+  maxSegments: {
+    type: 'integer',
+    minimum: 1,
+    description: '✅ RECOMMENDED: Page size in segments (use 300-500 to stay under token limits). Enables nextCursor/prevCursor.',
+  },
+  maxTokens: {
+    type: 'integer',
+    minimum: 1,
+    description: '✅ RECOMMENDED: Token budget for the page (e.g. 15000). Packs as many whole segments as fit; metadata.estimatedTokens reports the estimate and nextCursor points at the remainder.',
+  },
+  startIndex: {
+    type: 'integer',
+    minimum: 0,
+    description: '✅ RELIABLE: Start from segment index (0=beginning, 3000=~hour 4-5). Use this to access middle content of long videos.',
+  },
+  endIndex: {
+    type: 'integer',
+    minimum: 0,
+    description: '✅ RELIABLE: End at segment index (0-based). Optional when using maxSegments.',
+  },
+  reflow: {
+    type: 'string',
+    enum: ['sentences', 'paragraphs', 'fixedWindow'],
+    description: 'Merge short caption fragments into readable units. Each block keeps its start time and spans the merged duration. Indices and cursors then refer to merged blocks.',
+  },
+  windowSeconds: {
+    type: 'number',
+    minimum: 0,
+    description: 'Block length in seconds for reflow: "fixedWindow" (default 30)',
+  },
+  format: {
+    type: 'string',
+    enum: ['json', 'srt', 'vtt', 'txt', 'markdown'],
+    description: 'Output format. json (default) returns a segment array; srt, vtt, txt and markdown (timestamped sections) return the rendered text in "content".',
+  },
+  cache: {
+    type: 'string',
+    enum: ['bypass', 'refresh'],
+    description: 'Cache control: "bypass" fetches without touching the cache, "refresh" re-fetches and overwrites the cached copy. Omit to use the cache.',
+  },
+};
+
+// Timestamped output has its own shape, so the format option does not apply
+const { format: _format, ...TIMESTAMPED_PROPERTIES } = TRANSCRIPT_PROPERTIES;
+
+/**
+ * Transcript retrieval and search tools
+ */
+export function createTranscriptTools({ transcriptService }: ToolServices): ToolDefinition[] {
+  return [
+    {
+      name: 'transcripts_getTranscript',
+      description: 'Get YouTube video transcript with segmentation to avoid 25K token limits. For long videos, set maxTokens (e.g. 15000) or maxSegments (e.g. 300-500) and walk the transcript page by page: pass metadata.nextCursor (or prevCursor) back as cursor to get the adjacent page. No need to know segment counts up front.',
+      inputSchema: {
+        type: 'object',
+        properties: TRANSCRIPT_PROPERTIES,
+      },
+      route: { method: 'GET', path: '/api/transcript/:videoId' },
+      handler: args => transcriptService.getTranscript(args),
+    },
+    {
+      name: 'transcripts_searchTranscript',
+      description: 'Search a video transcript for a word or phrase and return the matching segments with timestamps',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          videoId: {
+            type: 'string',
+            description: 'The YouTube video ID or URL (watch, youtu.be, shorts, embed, live)',
+          },
+          query: {
+            type: 'string',
+            description: 'Text to search for (case-insensitive)',
+          },
+          language: TRANSCRIPT_PROPERTIES.language,
+          cache: TRANSCRIPT_PROPERTIES.cache,
+        },
+        required: ['videoId', 'query'],
+      },
+      route: { method: 'GET', path: '/api/transcript/:videoId/search' },
+      handler: args => transcriptService.searchTranscript(args),
+    },
+    {
+      name: 'transcripts_getTimestampedTranscript',
+      description: 'Get a video transcript with human-readable timestamps (H:MM:SS). Accepts the same segmentation, paging and reflow arguments as transcripts_getTranscript.',
+      inputSchema: {
+        type: 'object',
+        properties: TIMESTAMPED_PROPERTIES,
+      },
+      route: { method: 'GET', path: '/api/transcript/:videoId/timestamped' },
+      handler: args => transcriptService.getTimestampedTranscript(args),
+    },
+  ];
+}
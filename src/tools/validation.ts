@@ -0,0 +1,154 @@
+import { JsonSchemaProperty, ToolInputSchema } from './registry.js';
+import { InvalidArgumentError } from '../errors.js';
+
+/**
+ * Raised when tool arguments do not match the declared input schema
+ */
+export class ToolArgumentError extends InvalidArgumentError {
+  constructor(
+    message: string,
+    readonly field: string,
+    readonly expected: string,
+    readonly received?: unknown
+  ) {
+    super(message, { field, expected });
+    this.name = 'ToolArgumentError';
+  }
+}
+
+function describeExpected(schema: JsonSchemaProperty): string {
+  if (schema.enum) {
+    return `one of ${schema.enum.map(value => `"${value}"`).join(', ')}`;
+  }
+  if (schema.type === 'array' && schema.items) {
+    return `array of ${schema.items.type}`;
+  }
+  return schema.type;
+}
+
+function describeReceived(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+/**
+ * Check a single value against its schema, coercing obvious mismatches:
+ * numeric strings → numbers, "true"/"false" → booleans, numbers → strings,
+ * and a comma-separated string (or lone value) → array
+ */
+function validateValue(field: string, value: unknown, schema: JsonSchemaProperty): unknown {
+  const fail = (): never => {
+    throw new ToolArgumentError(
+      `Invalid argument "${field}": expected ${describeExpected(schema)}, received ${describeReceived(value)} ${JSON.stringify(value)}`,
+      field,
+      describeExpected(schema),
+      value
+    );
+  };
+
+  let coerced: unknown = value;
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        coerced = String(value);
+      } else if (typeof value !== 'string') {
+        fail();
+      }
+      break;
+
+    case 'number':
+    case 'integer':
+      if (typeof value === 'string' && value.trim() !== '') {
+        coerced = Number(value);
+      }
+      if (typeof coerced !== 'number' || !Number.isFinite(coerced)) fail();
+      if (schema.type === 'integer' && !Number.isInteger(coerced)) fail();
+      break;
+
+    case 'boolean':
+      if (value === 'true' || value === 'false') {
+        coerced = value === 'true';
+      } else if (typeof value !== 'boolean') {
+        fail();
+      }
+      break;
+
+    case 'array': {
+      let items: unknown[];
+      if (Array.isArray(value)) {
+        items = value;
+      } else if (typeof value === 'string') {
+        items = value.split(',').map(item => item.trim()).filter(Boolean);
+      } else if (value !== null && typeof value !== 'object') {
+        items = [value];
+      } else {
+        return fail();
+      }
+      coerced = schema.items
+        ? items.map((item, index) => validateValue(`${field}[${index}]`, item, schema.items!))
+        : items;
+      break;
+    }
+
+    case 'object':
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) fail();
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(coerced as string)) fail();
+
+  if (typeof coerced === 'number') {
+    if (schema.minimum !== undefined && coerced < schema.minimum) {
+      throw new ToolArgumentError(
+        `Invalid argument "${field}": must be >= ${schema.minimum}, received ${coerced}`,
+        field,
+        `${schema.type} >= ${schema.minimum}`,
+        value
+      );
+    }
+    if (schema.maximum !== undefined && coerced > schema.maximum) {
+      throw new ToolArgumentError(
+        `Invalid argument "${field}": must be <= ${schema.maximum}, received ${coerced}`,
+        field,
+        `${schema.type} <= ${schema.maximum}`,
+        value
+      );
+    }
+  }
+
+  return coerced;
+}
+
+/**
+ * Validate tool arguments against the tool's input schema
+ * Returns coerced arguments; properties not declared in the schema are dropped
+ */
+export function validateArguments(schema: ToolInputSchema, args: unknown): Record<string, unknown> {
+  if (args === undefined || args === null) {
+    args = {};
+  }
+  if (typeof args !== 'object' || Array.isArray(args)) {
+    throw new ToolArgumentError('Arguments must be an object', '(root)', 'object', args);
+  }
+
+  const input = args as Record<string, unknown>;
+  const validated: Record<string, unknown> = {};
+
+  for (const field of schema.required || []) {
+    const value = input[field];
+    if (value === undefined || value === null || value === '') {
+      const expected = describeExpected(schema.properties[field]);
+      throw new ToolArgumentError(`Missing required argument "${field}" (${expected})`, field, expected);
+    }
+  }
+
+  for (const [field, propertySchema] of Object.entries(schema.properties)) {
+    const value = input[field];
+    if (value === undefined || value === null) continue;
+    validated[field] = validateValue(field, value, propertySchema);
+  }
+
+  return validated;
+}
@@ -0,0 +1,216 @@
+import { ToolDefinition, ToolServices } from './registry.js';
+
+/**
+ * Video metadata, search and discovery tools
+ */
+export function createVideoTools({ videoService }: ToolServices): ToolDefinition[] {
+  return [
+    {
+      name: 'videos_getVideo',
+      description: 'Get detailed information about a YouTube video',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          videoId: {
+            type: 'string',
+            description: 'The YouTube video ID or URL (watch, youtu.be, shorts, embed, live)',
+          },
+          parts: {
+            type: 'array',
+            description: 'Parts of the video to retrieve',
+            items: {
+              type: 'string',
+            },
+          },
+        },
+        required: ['videoId'],
+      },
+      route: { method: 'GET', path: '/api/videos/:videoId' },
+      handler: args => videoService.getVideo(args),
+    },
+    {
+      name: 'videos_getVideos',
+      description: 'Get details for a list of videos in one call (any number of IDs, fetched 50 per API request). Results are keyed by video ID; private, deleted or unknown videos are reported with found: false.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          videoIds: {
+            type: 'array',
+            description: 'YouTube video IDs or URLs',
+            items: {
+              type: 'string',
+            },
+          },
+          parts: {
+            type: 'array',
+            description: 'Parts of each video to retrieve (default: snippet, contentDetails, statistics)',
+            items: {
+              type: 'string',
+            },
+          },
+          concurrency: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 10,
+            description: 'Parallel API requests (default 4)',
+          },
+        },
+        required: ['videoIds'],
+      },
+      route: { method: 'POST', path: '/api/videos/batch' },
+      handler: args => videoService.getVideos(args),
+    },
+    {
+      name: 'videos_searchVideos',
+      description: 'Search for videos on YouTube',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Search query',
+          },
+          maxResults: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 500,
+            description: 'Maximum number of results to return (up to 500). Pages of 50 are fetched automatically.',
+          },
+          pageToken: {
+            type: 'string',
+            description: 'nextPageToken from a previous call, to continue where it stopped',
+          },
+          order: {
+            type: 'string',
+            enum: ['date', 'rating', 'relevance', 'title', 'videoCount', 'viewCount'],
+            description: 'Sort order (default relevance)',
+          },
+          publishedAfter: {
+            type: 'string',
+            description: 'Only results published at or after this ISO 8601 timestamp (e.g. 2024-01-01T00:00:00Z)',
+          },
+          publishedBefore: {
+            type: 'string',
+            description: 'Only results published before this ISO 8601 timestamp',
+          },
+          videoDuration: {
+            type: 'string',
+            enum: ['any', 'short', 'medium', 'long'],
+            description: 'short: under 4 minutes, medium: 4-20 minutes, long: over 20 minutes',
+          },
+          videoDefinition: {
+            type: 'string',
+            enum: ['any', 'high', 'standard'],
+            description: 'Restrict to HD or SD videos',
+          },
+          videoCaption: {
+            type: 'string',
+            enum: ['any', 'closedCaption', 'none'],
+            description: 'closedCaption: only videos with captions (useful before fetching transcripts)',
+          },
+          regionCode: {
+            type: 'string',
+            description: 'ISO 3166-1 alpha-2 country code to return results for',
+          },
+          relevanceLanguage: {
+            type: 'string',
+            description: 'ISO 639-1 language code; results most relevant to this language are preferred',
+          },
+          channelId: {
+            type: 'string',
+            description: 'Only results from this channel (ID, @handle or channel URL)',
+          },
+          eventType: {
+            type: 'string',
+            enum: ['completed', 'live', 'upcoming'],
+            description: 'Restrict to broadcasts: live now, upcoming, or completed',
+          },
+          safeSearch: {
+            type: 'string',
+            enum: ['moderate', 'none', 'strict'],
+            description: 'Restricted-content filtering (default moderate)',
+          },
+          type: {
+            type: 'string',
+            enum: ['video', 'channel', 'playlist'],
+            description: 'Resource type to search for (default video). videoDuration, videoDefinition, videoCaption and eventType require video.',
+          },
+          enrich: {
+            type: 'boolean',
+            description: 'Merge durationSeconds, viewCount, likeCount, commentCount and hasCaptions into each result (one extra videos.list call per 50 results)',
+          },
+        },
+        required: ['query'],
+      },
+      route: { method: 'GET', path: '/api/videos/search' },
+      handler: args => videoService.searchVideos(args),
+    },
+    {
+      name: 'videos_getVideoStats',
+      description: 'Get view, like and comment counts for a YouTube video',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          videoId: {
+            type: 'string',
+            description: 'The YouTube video ID or URL (watch, youtu.be, shorts, embed, live)',
+          },
+        },
+        required: ['videoId'],
+      },
+      route: { method: 'GET', path: '/api/videos/:videoId/stats' },
+      handler: args => videoService.getVideoStats(args),
+    },
+    {
+      name: 'videos_getTrendingVideos',
+      description: 'Get currently trending (most popular) videos for a region',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          regionCode: {
+            type: 'string',
+            description: 'ISO 3166-1 alpha-2 country code (default: US)',
+          },
+          maxResults: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 50,
+            description: 'Maximum number of results to return (1-50)',
+          },
+          videoCategoryId: {
+            type: 'string',
+            description: 'Restrict to a video category ID',
+          },
+        },
+      },
+      route: { method: 'GET', path: '/api/videos/trending' },
+      handler: args => videoService.getTrendingVideos(args),
+    },
+    {
+      name: 'videos_getRelatedVideos',
+      description: 'Get videos related to a specific video',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          videoId: {
+            type: 'string',
+            description: 'The YouTube video ID or URL (watch, youtu.be, shorts, embed, live)',
+          },
+          maxResults: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 50,
+            description: 'Maximum number of results to return (1-50)',
+          },
+          enrich: {
+            type: 'boolean',
+            description: 'Merge durationSeconds, viewCount, likeCount, commentCount and hasCaptions into each result (one extra videos.list call per 50 results)',
+          },
+        },
+        required: ['videoId'],
+      },
+      route: { method: 'GET', path: '/api/videos/:videoId/related' },
+      handler: args => videoService.getRelatedVideos(args),
+    },
+  ];
+}
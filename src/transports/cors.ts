@@ -0,0 +1,59 @@
+import http from 'http';
+
+/**
+ * Browser origins allowed to call the HTTP API (CORS_ALLOWED_ORIGINS, comma-separated)
+ * Unset keeps the permissive default of allowing every origin; set it when the
+ * API is reachable from browsers, since it can trigger OAuth writes
+ * (deleting playlists, posting comments) with the stored tokens
+ */
+export function getAllowedOrigins(): string[] {
+  return (process.env.CORS_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Apply CORS for a request and reject browser requests from other origins
+ * With no allowlist configured every origin is allowed
+ * Requests without an Origin header (n8n, curl, server-to-server) pass through
+ * Returns false when the response has already been sent
+ */
+export function handleCors(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  allowHeaders: string,
+  allowedOrigins: string[] = getAllowedOrigins()
+): boolean {
+  const origin = req.headers.origin;
+
+  if (allowedOrigins.length === 0) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    setAllowHeaders(res, allowHeaders);
+  } else if (origin) {
+    if (!allowedOrigins.includes(origin)) {
+      res.writeHead(403, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        error: `Forbidden: origin ${origin} is not allowed`,
+        message: 'Add it to CORS_ALLOWED_ORIGINS to call this API from a browser'
+      }));
+      return false;
+    }
+
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    setAllowHeaders(res, allowHeaders);
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(200);
+    res.end();
+    return false;
+  }
+  return true;
+}
+
+function setAllowHeaders(res: http.ServerResponse, allowHeaders: string): void {
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', allowHeaders);
+}
@@ -1,3 +1,12 @@
+/**
+ * List result spanning one or more API pages
+ */
+export interface PagedResult<T> {
+  items: T[];
+  nextPageToken: string | null;  // Pass back as pageToken to continue
+  totalResults: number | null;   // pageInfo.totalResults as reported by the API (approximate for search)
+}
+
 /**
  * Video details parameters
  */
@@ -6,12 +15,54 @@ export interface VideoParams {
   parts?: string[];
 }
 
+/**
+ * Batch video details parameters
+ */
+export interface BatchVideosParams {
+  videoIds: string[];
+  parts?: string[];
+  concurrency?: number;  // Parallel videos.list calls (default 4)
+}
+
+/**
+ * Per-ID entry in a batch video lookup
+ * videos.list silently omits private, deleted and nonexistent videos,
+ * so those all surface as found: false
+ */
+export type BatchVideoEntry =
+  | { found: true; video: any }
+  | { found: false; reason: 'notFoundOrPrivate' };
+
 /**
  * Search videos parameters
  */
 export interface SearchParams {
   query: string;
   maxResults?: number;
+  pageToken?: string;
+}
+
+export type SearchOrder = 'date' | 'rating' | 'relevance' | 'title' | 'videoCount' | 'viewCount';
+export type SearchResourceType = 'video' | 'channel' | 'playlist';
+
+/**
+ * Video search parameters: the search.list filters on top of the query
+ * videoDuration, videoDefinition, videoCaption and eventType only apply to type "video"
+ */
+export interface VideoSearchParams extends SearchParams {
+  order?: SearchOrder;
+  publishedAfter?: string;
+  publishedBefore?: string;
+  videoDuration?: 'any' | 'short' | 'medium' | 'long';
+  videoDefinition?: 'any' | 'high' | 'standard';
+  videoCaption?: 'any' | 'closedCaption' | 'none';
+  regionCode?: string;
+  relevanceLanguage?: string;
+  channelId?: string;
+  eventType?: 'completed' | 'live' | 'upcoming';
+  safeSearch?: 'moderate' | 'none' | 'strict';
+  type?: SearchResourceType;
+  enrich?: boolean;
 }
 
 /**
@@ -29,13 +80,52 @@ export interface TrendingParams {
 export interface RelatedVideosParams {
   videoId: string;
   maxResults?: number;
+  enrich?: boolean;
+}
+
+/**
+ * Fields merged into list results by `enrich: true`
+ */
+export interface VideoEnrichment {
+  durationSeconds: number | null;
+  viewCount: number | null;
+  likeCount: number | null;
+  commentCount: number | null;
+  hasCaptions: boolean;
+}
+
+/**
+ * Single caption segment as returned by TranscriptService
+ */
+export interface TranscriptSegment {
+  text: string;
+  start: number;     // Seconds from the beginning of the video
+  duration: number;  // Seconds
+  offset: number;    // Start time in milliseconds
 }
 
+/**
+ * Transcript cache control
+ * - bypass: fetch from YouTube without reading or writing the cache
+ * - refresh: fetch from YouTube and overwrite the cached copy
+ */
+export type TranscriptCacheMode = 'bypass' | 'refresh';
+
+/**
+ * Transcript output format
+ */
+export type TranscriptFormat = 'json' | 'srt' | 'vtt' | 'txt' | 'markdown';
+
+/**
+ * How caption fragments are merged into larger units
+ */
+export type TranscriptReflow = 'sentences' | 'paragraphs' | 'fixedWindow';
+
 /**
  * Transcript parameters with segmentation support
  */
 export interface TranscriptParams {
-  videoId: string;
+  videoId?: string;             // Required unless a cursor is given
   language?: string;
   // Time-based segmentation
   startTime?: string | number;  // Time in seconds or "MM:SS" format
@@ -44,8 +134,17 @@ export interface TranscriptParams {
   firstMinutes?: number;        // Get first N minutes
   // Segment-based limitation
   maxSegments?: number;         // Maximum number of segments to return
+  maxTokens?: number;           // Token budget: pack as many whole segments as fit
   startIndex?: number;          // Start from segment index
   endIndex?: number;            // End at segment index
+  cursor?: string;              // Opaque nextCursor/prevCursor from a previous page
+  // Reflow (applied before filtering, so indices refer to merged units)
+  reflow?: TranscriptReflow;    // Merge caption fragments into sentences/paragraphs/windows
+  windowSeconds?: number;       // Window length for reflow: "fixedWindow" (default 30)
+  // Output
+  format?: TranscriptFormat;    // json (default) returns segments; others return rendered content
+  // Caching
+  cache?: TranscriptCacheMode;  // Skip or refresh the transcript cache
 }
 
 /**
@@ -55,6 +154,7 @@ export interface SearchTranscriptParams {
   videoId: string;
   query: string;
   language?: string;
+  cache?: TranscriptCacheMode;
 }
 
 /**
@@ -70,6 +170,24 @@ export interface ChannelParams {
 export interface ChannelVideosParams {
   channelId: string;
   maxResults?: number;
+  pageToken?: string;
+}
+
+/**
+ * Sort order for channel uploads
+ * The uploads playlist is newest-first; other orders sort every upload in range
+ */
+export type ChannelUploadsOrder = 'newest' | 'oldest' | 'viewCount' | 'title';
+
+/**
+ * Channel uploads listing parameters
+ */
+export interface ChannelUploadsParams extends ChannelVideosParams {
+  publishedAfter?: string;   // RFC 3339 / ISO 8601 timestamp
+  publishedBefore?: string;
+  order?: ChannelUploadsOrder;
+  hydrate?: boolean;         // Replace playlist items with full video resources (duration, statistics)
+  enrich?: boolean;          // Merge parsed duration, counts and caption flag into each item
 }
 
 /**
@@ -85,4 +203,260 @@ export interface PlaylistParams {
 export interface PlaylistItemsParams {
   playlistId: string;
   maxResults?: number;
+  pageToken?: string;
+}
+
+export type PlaylistPrivacyStatus = 'private' | 'public' | 'unlisted';
+
+/**
+ * New playlist on the authenticated channel
+ */
+export interface CreatePlaylistParams {
+  title: string;
+  description?: string;
+  privacyStatus?: PlaylistPrivacyStatus;
+}
+
+/**
+ * Playlist changes; omitted fields keep their current value
+ */
+export interface UpdatePlaylistParams {
+  playlistId: string;
+  title?: string;
+  description?: string;
+  privacyStatus?: PlaylistPrivacyStatus;
+}
+
+/**
+ * Move a playlist item to a new zero-based position
+ */
+export interface MovePlaylistItemParams {
+  playlistItemId: string;
+  position: number;
+}
+
+/**
+ * Playlists owned by the authenticated channel
+ */
+export interface MyPlaylistsParams {
+  maxResults?: number;
+  pageToken?: string;
+}
+
+/**
+ * Bulk add/remove of videos in one playlist
+ */
+export interface BulkPlaylistParams {
+  playlistId: string;
+  videoIds: string[];
+  idempotencyKey?: string;  // Retries with the same key replay completed items instead of repeating them
+}
+
+/**
+ * Make a playlist contain exactly (or at least) the given videos
+ */
+export interface SyncPlaylistParams extends BulkPlaylistParams {
+  removeExtra?: boolean;    // Remove videos not in videoIds (default true)
+}
+
+/**
+ * Query whose resulting videos define a playlist's desired contents
+ * Inline in a request, or saved by name in YOUTUBE_SAVED_QUERIES_FILE
+ */
+export type VideoQuery =
+  | ({ source: 'search' } & VideoSearchParams)
+  | ({ source: 'channelUploads' } & ChannelUploadsParams)
+  | ({ source: 'playlist' } & PlaylistItemsParams);
+
+/**
+ * Desired state of a playlist: exactly one of videoIds, query or savedQuery
+ */
+export interface ApplyPlaylistParams {
+  playlistId: string;
+  videoIds?: string[];       // In the desired order
+  query?: VideoQuery;
+  savedQuery?: string;
+  removeExtra?: boolean;     // Delete items not in the desired list (default true)
+  reorder?: boolean;         // Move items to match the desired order (default true)
+  plan?: boolean;            // Return the diff without applying it
+  idempotencyKey?: string;
+}
+
+/**
+ * Changes needed to bring a playlist to its desired state
+ * Moves are listed in the order they must be applied; `to` is the zero-based
+ * position after the move
+ */
+export interface PlaylistSyncPlan {
+  playlistId: string;
+  desiredVideoIds: string[];
+  inserts: Array<{ videoId: string }>;
+  deletes: Array<{ videoId: string; playlistItemId: string; reason: 'notWanted' | 'duplicate' }>;
+  moves: Array<{ videoId: string; playlistItemId?: string; from: number; to: number }>;
+  quotaCost: number;         // Write units (50 per change); moves after inserts are estimated
+  inSync: boolean;
+}
+
+export type BulkItemStatus = 'added' | 'removed' | 'moved' | 'skipped' | 'failed';
+
+/**
+ * Outcome for one video (or one removed playlist item) of a bulk operation
+ */
+export interface BulkItemResult {
+  videoId: string;
+  status: BulkItemStatus;
+  playlistItemId?: string;
+  position?: number;        // New position of a moved item
+  reason?: string;          // Why an item was skipped
+  error?: Record<string, unknown>;
+  replayed?: boolean;       // Outcome recorded by an earlier request with the same idempotency key
+}
+
+/**
+ * Per-item report of a bulk playlist operation
+ */
+export interface BulkPlaylistReport {
+  playlistId: string;
+  operation: 'add' | 'remove' | 'sync' | 'apply';
+  idempotencyKey?: string;
+  success: boolean;         // No item failed and no reorder was skipped
+  summary: Record<BulkItemStatus, number>;
+  items: BulkItemResult[];
+  plan?: PlaylistSyncPlan;  // Diff that was applied (apply only)
+  reorderSkipped?: boolean; // The playlist read after the writes did not reflect them yet, so nothing was moved (apply only)
+  pendingMoves?: PlaylistSyncPlan['moves'];  // Moves still needed per that read; retry to apply them
+}
+
+export type CommentOrder = 'time' | 'relevance';
+
+/**
+ * Comment thread listing parameters (exactly one of videoId or channelId)
+ */
+export interface CommentThreadsParams {
+  videoId?: string;
+  channelId?: string;       // All threads on the channel's videos
+  order?: CommentOrder;
+  maxResults?: number;
+  pageToken?: string;
+  includeReplies?: boolean; // Replies returned inline with each thread (up to 5)
+  allReplies?: boolean;     // Fetch every reply with comments.list
+}
+
+/**
+ * Single comment thread parameters
+ */
+export interface CommentThreadParams {
+  threadId: string;
+  allReplies?: boolean;
+}
+
+/**
+ * Comment search parameters
+ */
+export interface SearchCommentsParams extends Omit<CommentThreadsParams, 'includeReplies' | 'allReplies'> {
+  query: string;
+}
+
+
+/**
+ * Moderation states a channel owner can set on a comment
+ */
+export type CommentModerationStatus = 'published' | 'heldForReview' | 'rejected';
+
+/**
+ * Top-level comment on a video
+ */
+export interface PostCommentParams {
+  videoId: string;
+  text: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Reply to a comment thread
+ */
+export interface ReplyCommentParams {
+  parentId: string;         // Thread ID (the ID of its top-level comment)
+  text: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Moderation status change for one or more comments
+ */
+export interface ModerateCommentsParams {
+  commentIds: string[];
+  moderationStatus: CommentModerationStatus;
+  banAuthor?: boolean;      // Only with rejected
+  dryRun?: boolean;
+}
+
+/**
+ * Spam report or deletion for one or more comments
+ */
+export interface CommentIdsParams {
+  commentIds: string[];
+  dryRun?: boolean;
+}
+
+/**
+ * Outcome for one comment of comments_delete
+ */
+export interface CommentDeleteResult {
+  commentId: string;
+  status: 'deleted' | 'failed';
+  error?: Record<string, unknown>;
+}
+
+/**
+ * Per-comment report of comments_delete
+ */
+export interface CommentDeleteReport {
+  success: boolean;         // No comment failed
+  summary: Record<CommentDeleteResult['status'], number>;
+  items: CommentDeleteResult[];
+}
+
+/**
+ * What a write would do, returned instead of performing it when dryRun is set
+ */
+export interface DryRunResult {
+  dryRun: true;
+  endpoint: string;
+  quotaCost: number;
+  request: Record<string, unknown>;
+  authenticated: boolean;   // Whether OAuth tokens with the required scope are present
+  targets?: any[];          // Existing comments the write would affect
+  notFound?: string[];      // Requested comment IDs that do not exist
+}
+
+/**
+ * Claim the next playlist item no other worker holds
+ */
+export interface ClaimPlaylistItemParams {
+  playlistId: string;
+  leaseSeconds?: number;    // How long the claim lasts before the item returns to the pool
+  worker?: string;          // Free-form label of the claiming worker, echoed in the lease
+}
+
+/**
+ * Ack (done: remove from the playlist) or nack (release) a claimed item
+ */
+export interface LeaseParams {
+  leaseId: string;
+}
+
+/**
+ * Exclusive, time-limited claim on a playlist item
+ */
+export interface PlaylistLease {
+  leaseId: string;
+  playlistId: string;
+  playlistItemId: string;
+  videoId: string;
+  title: string;
+  publishedAt: string;
+  worker?: string;
+  claimedAt: string;        // ISO 8601
+  expiresAt: string;        // ISO 8601
 }